@@ -3,20 +3,45 @@ import path from 'path';
 // Removed parseChordFile and generateDraggableItemHtml imports
 import { serve } from 'bun';
 // Removed cssContent import
-
-const USER_DIR = 'user';
+import { generatePageCss } from './src/pageSettings';
+import { exportPdf } from './src/export/pdfExport';
+import { exportHtml } from './src/export/htmlExport';
+import { resolveUserFile } from './src/export/items';
+import type { LayoutSettings } from './src/export/types';
+import { watchUserDir } from './src/fileWatcher';
+import { joinSession, leaveSession, handleCollaborationMessage, resetSession } from './src/collaboration';
+import { takeSnapshot, listSnapshots, isValidSnapshotId, readSnapshot, moveToTrash, restoreTrashedFiles, type SnapshotInfo } from './src/snapshots';
+import type { CollaborationMessage } from './src/interactions/types';
+import { USER_DIR, DEFAULT_PROJECT, isValidProjectId, getProjectDir, getSettingsFile, getProjectUrlPrefix, projectExists, listProjects, createProject, updateSettings, renameProject, duplicateProject, deleteProject, migrateLegacyUserDir } from './src/projects';
 
 // Ensure user directory exists
 async function ensureUserDirectory() {
   try {
     await mkdir(USER_DIR, { recursive: true });
     console.log(`Directory ./${USER_DIR} ensured.`);
+    await migrateLegacyUserDir();
   } catch (error) {
     console.error(`Error creating directory ./${USER_DIR}:`, error);
   }
 }
 
-ensureUserDirectory(); // Call on startup
+// Push changes of item files (e.g. edited in a text editor) to the clients of the project
+async function startFileWatcher() {
+  // `bun --hot` re-runs this file, close the watcher of the previous run
+  const hotState = globalThis as { userDirWatcher?: { close(): void } };
+  hotState.userDirWatcher?.close();
+  try {
+    hotState.userDirWatcher = await watchUserDir(event => {
+      console.log(`File ${event.change}: ${event.filepath}`);
+      server.publish(event.project, JSON.stringify(event));
+    });
+    console.log(`Watching ./${USER_DIR} for file changes.`);
+  } catch (error) {
+    console.error(`Error watching ./${USER_DIR}:`, error);
+  }
+}
+
+ensureUserDirectory().then(startFileWatcher); // Call on startup
 
 // Helper to get content type based on file extension
 function getContentType(filePath: string): string {
@@ -35,8 +60,46 @@ function getContentType(filePath: string): string {
     }
 } // <-- Added missing closing brace
 
+const DEFAULT_PAGE_COUNT = 2;
+
+// Finds the name an upload is stored under without replacing another file: the original name,
+// or "name-2.ext", "name-3.ext" ... An existing file with the same bytes is reused (exists: true).
+async function findUploadFilename(dir: string, filename: string, data: Buffer): Promise<{ filename: string; exists: boolean }> {
+  const { name, ext } = path.parse(filename);
+  for (let number = 1; ; number++) {
+    const candidate = number === 1 ? filename : `${name}-${number}${ext}`;
+    let existing: Buffer;
+    try {
+      existing = await readFile(path.join(dir, candidate));
+    } catch {
+      return { filename: candidate, exists: false };
+    }
+    if (existing.equals(data)) return { filename: candidate, exists: true };
+  }
+}
+
+// Read the settings file of a project (document settings, pages, items), an empty object if there is none yet
+async function loadSettings(project: string): Promise<LayoutSettings> {
+  try {
+    return JSON.parse(await readFile(getSettingsFile(project), 'utf-8'));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error("Error reading settings, using defaults:", error);
+    }
+    return {};
+  }
+}
+
 // Simplified HTML generation - no longer pre-renders items
-async function generateBaseHtml(): Promise<string> {
+async function generateBaseHtml(project: string): Promise<string> {
+  const settings = await loadSettings(project);
+  const projectQuery = `?project=${encodeURIComponent(project)}`;
+  const pageCss = generatePageCss(settings.document ?? {});
+  const pageCount = settings.pages?.length || DEFAULT_PAGE_COUNT;
+  // Empty page containers, items are loaded by client-side JS
+  const pagesHtml = Array.from({ length: pageCount }, (_, index) =>
+    `    <div class="page-container" id="page-${index}"${settings.pages?.[index] ? ` data-page-id="${settings.pages[index].id}"` : ''}></div>`
+  ).join('\n');
 
   const baseHtml = `
 <!DOCTYPE html>
@@ -50,16 +113,19 @@ async function generateBaseHtml(): Promise<string> {
     <link href="https://fonts.googleapis.com/css2?family=Comfortaa:wght@400&display=swap" rel="stylesheet">
     <link href="/src/base-style.css" rel="stylesheet" type="text/css">
     <link href="/src/extra-style.css" rel="stylesheet" type="text/css">
+    <style id="page-style">${pageCss}</style>
 </head>
-<body>
+<body data-project="${project}">
     <div id="toast-container"></div>
-    <div class="page-container" id="page-0">
-        <!-- Items will be loaded here by client-side JS -->
+    <div id="app-toolbar">
+        <select id="project-select" title="Project"></select>
+        <button id="layers-button" type="button" title="Pages and their items, drag to reorder">Layers</button>
+        <button id="history-button" type="button" title="Undo history (Ctrl+Z / Ctrl+Shift+Z)">History</button>
+        <button id="snapshots-button" type="button" title="Saved versions of the layout">Versions</button>
+        <a href="/export.html${projectQuery}" download title="Single HTML file with all items, viewable without the server">Export HTML</a>
+        <a href="/export.pdf${projectQuery}" target="_blank" title="Vector PDF of all pages">Export PDF</a>
     </div>
-    <div class="page-container" id="page-1">
-         <!-- Items will be loaded here by client-side JS -->
-         &nbsp; <!-- Keep for visibility if empty -->
-     </div>
+${pagesHtml}
 
     <script type="module" src="/dist/interactions.js" defer></script>
 </body>
@@ -68,28 +134,113 @@ async function generateBaseHtml(): Promise<string> {
   return baseHtml;
 }
 
+// Returns the project of a request (`?project=<id>`), or null if the ID is invalid
+function getRequestProject(url: URL): string | null {
+  const project = url.searchParams.get('project') || DEFAULT_PROJECT;
+  return isValidProjectId(project) ? project : null;
+}
+
+// Checks that a request comes from a page of this server, not from another site the user has open.
+// Browsers send POSTs (forms, `text/plain` fetches) and WebSocket connections cross-site without asking,
+// so requests that change files need this. Requests without these headers (e.g. curl) are not from a browser.
+function isSameOriginRequest(req: Request, url: URL): boolean {
+  const fetchSite = req.headers.get('Sec-Fetch-Site');
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') return false;
+  const origin = req.headers.get('Origin');
+  return !origin || origin === url.origin;
+}
 
-const POSITIONS_FILE = 'user/settings.json'; // Rename positions file
+// Files that can be opened with the default application: the sources of the parsers, never executables or scripts
+const OPENABLE_EXTENSIONS = ['.txt', '.cho', '.chordpro', '.crd', '.svg', '.html', '.htm'];
+
+// Handles the project routes (list, create, rename, duplicate, delete)
+async function handleProjectRequest(req: Request, pathname: string): Promise<Response> {
+  if (req.method === 'GET') {
+    return Response.json(await listProjects());
+  }
+
+  const { project, name } = await req.json();
+  if (pathname !== '/create-project' && (!isValidProjectId(project ?? '') || !(await projectExists(project)))) {
+    return new Response("Project not found.", { status: 404 });
+  }
+  if (pathname !== '/delete-project') {
+    if (!isValidProjectId(name ?? '')) {
+      return new Response("Invalid project name (use letters, digits, spaces, '-' and '_').", { status: 400 });
+    }
+    if (await projectExists(name)) {
+      return new Response(`A project named "${name}" already exists.`, { status: 409 });
+    }
+  }
+
+  switch (pathname) {
+    case '/create-project':
+      await createProject(name);
+      break;
+    case '/rename-project':
+      await renameProject(project, name);
+      break;
+    case '/duplicate-project':
+      await duplicateProject(project, name);
+      break;
+    case '/delete-project':
+      await deleteProject(project);
+      break;
+  }
+  console.log(`Project request ${pathname} done (${project ?? ''} ${name ?? ''}).`);
+  return Response.json({ success: true, project: name ?? project });
+}
 
 console.log("Starting server on port 3001...");
 
-const server = serve({
+const server = serve<{ project: string; clientId: string }, {}>({
   port: 3001,
   async fetch(req, server) { // Add server argument
     const url = new URL(req.url);
     // Decode pathname to handle spaces or special characters in filenames
     const pathname = decodeURIComponent(url.pathname);
 
-    // Upgrade to WebSocket if requested
+    if ((req.method !== 'GET' || pathname === '/ws') && !isSameOriginRequest(req, url)) {
+      console.warn(`Rejected cross-site request: ${req.method} ${pathname} from ${req.headers.get('Origin') ?? 'unknown origin'}`);
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // Upgrade to WebSocket if requested (`/ws?project=<id>`, receives the file changes and the edits of other clients of the project)
     if (pathname === "/ws") {
-      const success = server.upgrade(req);
+      const project = getRequestProject(url);
+      if (!project) {
+        return new Response("Invalid project", { status: 400 });
+      }
+      const success = server.upgrade(req, { data: { project, clientId: crypto.randomUUID() } });
       return success ? undefined : new Response("WebSocket upgrade error", { status: 400 });
     }
 
+    // Project routes
+    if ((req.method === 'GET' && pathname === '/projects') || (req.method === 'POST' && /^\/(create|rename|duplicate|delete)-project$/.test(pathname))) {
+      try {
+        return await handleProjectRequest(req, pathname);
+      } catch (error: any) {
+        console.error(`Error handling ${pathname}:`, error);
+        return new Response("Error handling project request", { status: 500 });
+      }
+    }
+
+    // All other routes work on the project given by ?project=<id>
+    const project = getRequestProject(url);
+    if (!project) {
+      return new Response("Invalid project", { status: 400 });
+    }
+
     // Serve base index.html
     if (req.method === 'GET' && pathname === '/') {
       try {
-        const html = await generateBaseHtml(); // Use simplified generator
+        // Without a project, open the default project or the first one there is
+        if (!url.searchParams.has('project') && !(await projectExists(DEFAULT_PROJECT))) {
+          const projects = await listProjects();
+          if (projects[0]) {
+            return new Response(null, { status: 302, headers: { Location: `/?project=${encodeURIComponent(projects[0])}` } });
+          }
+        }
+        const html = await generateBaseHtml(project); // Use simplified generator
         return new Response(html, { headers: { 'Content-Type': 'text/html' } });
       } catch (error: any) {
         console.error("Error generating base HTML:", error);
@@ -99,10 +250,19 @@ const server = serve({
     // Save positions
     else if (req.method === 'POST' && pathname === '/save-positions') {
       try {
-        const positions = await req.json();
-        await fsWriteFile(POSITIONS_FILE, JSON.stringify(positions, null, 2)); // Use fsWriteFile alias
-        console.log(`Positions saved to ${POSITIONS_FILE}`);
-        return new Response("Positions saved successfully", { status: 200 });
+        // `revision` is the revision the client's state is based on, `force` overwrites newer changes
+        const { force, ...positions }: LayoutSettings & { force?: boolean } = await req.json();
+        let conflict = false;
+        const settings = await updateSettings(project, current => { // Saving creates the project if needed
+          conflict = !force && (current.revision ?? 0) > (positions.revision ?? 0);
+          return conflict ? null : positions;
+        });
+        if (conflict) {
+          console.log(`Rejected save of ${getSettingsFile(project)} based on revision ${positions.revision ?? 0} (current: ${settings.revision}).`);
+          return Response.json(settings, { status: 409 }); // The client can show or reload the current state
+        }
+        console.log(`Positions saved to ${getSettingsFile(project)} (revision ${settings.revision})`);
+        return Response.json({ success: true, revision: settings.revision });
       } catch (error: any) { // Added type annotation
         console.error("Error saving positions:", error);
         return new Response("Error saving positions", { status: 500 });
@@ -111,18 +271,45 @@ const server = serve({
     // Load positions
     else if (req.method === 'GET' && pathname === '/load-positions') {
        try {
-         const positionsData = await readFile(POSITIONS_FILE, 'utf-8');
+         const positionsData = await readFile(getSettingsFile(project), 'utf-8');
          return new Response(positionsData, { headers: { 'Content-Type': 'application/json' } });
        } catch (error: any) { // Added type annotation
          if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
-           console.log(`${POSITIONS_FILE} not found. Sending 404.`);
+           console.log(`${getSettingsFile(project)} not found. Sending 404.`);
            return new Response(JSON.stringify({}), { status: 404, headers: { 'Content-Type': 'application/json' } });
          }
          console.error("Error loading positions:", error);
          return new Response("Error loading positions", { status: 500 });
         }
     }
-    // Handle file uploads via POST to /user
+    // Export the layout as PDF (e.g. `curl -o songbook.pdf http://localhost:3001/export.pdf`)
+    else if (req.method === 'GET' && pathname === '/export.pdf') {
+      try {
+        const pdf = await exportPdf(await loadSettings(project), getProjectDir(project));
+        console.log(`PDF exported (${pdf.length} bytes).`);
+        return new Response(pdf, {
+          headers: { 'Content-Type': 'application/pdf', 'Content-Disposition': 'inline; filename="layout.pdf"' }
+        });
+      } catch (error: any) {
+        console.error("Error exporting PDF:", error);
+        return new Response("Error exporting PDF", { status: 500 });
+      }
+    }
+    // Export the layout as a self-contained HTML file (no server or scripts needed to view it)
+    else if (req.method === 'GET' && pathname === '/export.html') {
+      try {
+        const html = await exportHtml(await loadSettings(project), getProjectDir(project));
+        console.log(`HTML exported (${html.length} characters).`);
+        return new Response(html, {
+          headers: { 'Content-Type': 'text/html', 'Content-Disposition': 'attachment; filename="layout.html"' }
+        });
+      } catch (error: any) {
+        console.error("Error exporting HTML:", error);
+        return new Response("Error exporting HTML", { status: 500 });
+      }
+    }
+    // Handle file uploads via POST to /user.
+    // An existing file with the same name is replaced, unless "keepExisting" is set (e.g. for pasted items of another project).
     else if (req.method === 'POST' && pathname === '/user') {
         try {
             const formData = await req.formData();
@@ -134,11 +321,15 @@ const server = serve({
 
             // Basic security: Sanitize filename (consider more robust validation)
             // Use path.basename to prevent path traversal, but keep original filename.
-            const safeFilename = path.basename(file.name);
-            const uploadPath = path.join(process.cwd(), 'user', safeFilename);
+            const userDir = path.join(process.cwd(), getProjectDir(project)); // Renamed for clarity
+            await createProject(project);
+            const data = Buffer.from(await file.arrayBuffer());
+            const { filename: safeFilename, exists } = formData.get('keepExisting')
+              ? await findUploadFilename(userDir, path.basename(file.name), data)
+              : { filename: path.basename(file.name), exists: false };
+            const uploadPath = path.join(userDir, safeFilename);
 
-            // Security check: Ensure upload path is within 'user'
-            const userDir = path.join(process.cwd(), 'user'); // Renamed for clarity
+            // Security check: Ensure upload path is within the project directory
             const resolvedUploadPath = path.resolve(uploadPath);
             if (!resolvedUploadPath.startsWith(userDir + path.sep)) { // Use userDir
                  console.warn(`Attempted upload outside user directory: ${safeFilename}`);
@@ -146,11 +337,11 @@ const server = serve({
             }
 
             // Write the file using Bun's optimized function or fs/promises
-            await fsWriteFile(uploadPath, Buffer.from(await file.arrayBuffer())); // Use fsWriteFile alias
+            if (!exists) await fsWriteFile(uploadPath, data); // Use fsWriteFile alias
 
             console.log(`File uploaded successfully: ${safeFilename}`);
             // Respond with the path or filename, useful for client-side updates
-            return new Response(JSON.stringify({ success: true, filename: safeFilename, path: `/user/${safeFilename}` }), {
+            return new Response(JSON.stringify({ success: true, filename: safeFilename, path: `${getProjectUrlPrefix(project)}${safeFilename}` }), {
                 status: 200,
                 headers: { 'Content-Type': 'application/json' }
             });
@@ -160,6 +351,59 @@ const server = serve({
             return new Response("Error uploading file", { status: 500 });
         }
     }
+    // Snapshot routes: list, take and restore snapshots of the settings (see src/snapshots.ts)
+    // List the snapshots of the settings (newest first)
+    else if (req.method === 'GET' && pathname === '/snapshots') {
+      try {
+        return Response.json(await listSnapshots(getProjectDir(project)));
+      } catch (error: any) {
+        console.error("Error listing snapshots:", error);
+        return new Response("Error listing snapshots", { status: 500 });
+      }
+    }
+    // Take a snapshot of the settings now
+    else if (req.method === 'POST' && pathname === '/create-snapshot') {
+      try {
+        let snapshot: SnapshotInfo | null = null;
+        await updateSettings(project, async current => { // After pending saves
+          snapshot = await takeSnapshot(getProjectDir(project), current);
+          return null;
+        });
+        if (!snapshot) {
+          return new Response("Nothing saved yet.", { status: 404 });
+        }
+        return Response.json(snapshot);
+      } catch (error: any) {
+        console.error("Error taking snapshot:", error);
+        return new Response("Error taking snapshot", { status: 500 });
+      }
+    }
+    // Restore the settings from a snapshot (the current settings are kept as a snapshot) and the files of its items
+    else if (req.method === 'POST' && pathname === '/restore-snapshot') {
+      try {
+        const { id } = await req.json();
+        if (typeof id !== 'string' || !isValidSnapshotId(id)) {
+          return new Response("Invalid snapshot ID.", { status: 400 });
+        }
+        const projectDir = getProjectDir(project);
+        const snapshot = await readSnapshot(projectDir, id);
+        // In the update, so no save lands between keeping the current settings and replacing them
+        const settings = await updateSettings(project, async current => {
+          await takeSnapshot(projectDir, current);
+          return snapshot;
+        });
+        const restoredFiles = await restoreTrashedFiles(projectDir, settings);
+        console.log(`Restored snapshot ${id} of ${project} (revision ${settings.revision}, files: ${restoredFiles.join(', ') || 'none'}).`);
+        server.publish(project, JSON.stringify(resetSession(project, settings.revision!))); // Other clients show the restored state
+        return Response.json({ success: true, revision: settings.revision, restoredFiles });
+      } catch (error: any) {
+        console.error("Error restoring snapshot:", error);
+        if (error?.code === 'ENOENT') {
+          return new Response("Snapshot not found.", { status: 404 });
+        }
+        return new Response("Error restoring snapshot", { status: 500 });
+      }
+    }
     // Handle file deletion
     else if (req.method === 'POST' && pathname === '/delete-file') {
       try {
@@ -168,19 +412,19 @@ const server = serve({
           return new Response("Invalid filepath provided for deletion.", { status: 400 });
         }
 
-        // Security: Ensure the path is within the 'user' directory and doesn't try to escape.
-        const userDir = path.join(process.cwd(), 'user');
-        const fullPath = path.join(process.cwd(), filepath); // Assuming filepath is like /user/filename.txt
+        // Security: Ensure the path is within the project directory and doesn't try to escape.
+        const userDir = path.join(process.cwd(), getProjectDir(project));
+        const fullPath = path.join(process.cwd(), filepath); // Assuming filepath is like /user/<project>/filename.txt
         const resolvedPath = path.resolve(fullPath);
 
         if (!resolvedPath.startsWith(userDir + path.sep)) {
-          console.warn(`Attempt to delete file outside user directory: ${filepath}`);
-          return new Response("Forbidden: Cannot delete files outside the user directory.", { status: 403 });
+          console.warn(`Attempt to delete file outside the project directory: ${filepath}`);
+          return new Response("Forbidden: Cannot delete files outside the project directory.", { status: 403 });
         }
 
-        await Bun.file(resolvedPath).unlink(); // Bun's way to delete a file
-        console.log(`File deleted: ${resolvedPath}`);
-        return new Response("File deleted successfully", { status: 200 });
+        await moveToTrash(getProjectDir(project), resolvedPath); // Restoring a snapshot brings it back
+        console.log(`File moved to trash: ${resolvedPath}`);
+        return new Response("File moved to trash", { status: 200 });
 
       } catch (error: any) {
         console.error("Error deleting file:", error);
@@ -190,6 +434,29 @@ const server = serve({
         return new Response("Error deleting file", { status: 500 });
       }
     }
+    // Open the source file of an item with the default application of the system (e.g. a text editor)
+    else if (req.method === 'POST' && pathname === '/open-file') {
+      try {
+        const { filepath } = await req.json();
+        const filePath = typeof filepath === 'string' ? resolveUserFile(filepath, getProjectDir(project)) : null;
+        if (!filePath) {
+          return new Response("Can only open files of the project.", { status: 400 });
+        }
+        if (!OPENABLE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+          return new Response("Can only open songs, SVG and HTML files.", { status: 400 });
+        }
+        // No shell, so characters in the file name (e.g. & or | for cmd) can't run commands
+        const command = process.platform === 'darwin' ? ['open', filePath]
+          : process.platform === 'win32' ? ['rundll32', 'url.dll,FileProtocolHandler', filePath]
+          : ['xdg-open', filePath];
+        Bun.spawn(command, { stdout: 'ignore', stderr: 'ignore' });
+        console.log(`Opened ${filePath} with ${command[0]}.`);
+        return new Response("File opened", { status: 200 });
+      } catch (error: any) {
+        console.error("Error opening file:", error);
+        return new Response("Error opening file", { status: 500 });
+      }
+    }
     // Generic static file serving (CSS, JS, images, etc.)
     else if (req.method === 'GET' && (pathname.startsWith('/src/') || pathname.startsWith('/dist/') || pathname.startsWith('/user/'))) {
         try {
@@ -223,14 +490,29 @@ const server = serve({
   },
   websocket: { // WebSocket handler
     open(ws) {
-      console.log("WebSocket client connected, sending reload command.");
-      ws.send("reload"); // Send reload immediately on connection
+      console.log(`WebSocket client connected (project ${ws.data.project}).`);
+      ws.subscribe(ws.data.project);
+      ws.send(JSON.stringify(joinSession(ws.data.project, ws.data.clientId)));
     },
     message(ws, message) {
-      // Handle messages from client if needed
+      let parsed: CollaborationMessage;
+      try {
+        parsed = JSON.parse(String(message));
+      } catch {
+        console.warn("Ignoring invalid WebSocket message.");
+        return;
+      }
+      const { broadcast, reply, stored } = handleCollaborationMessage(ws.data.project, ws.data.clientId, parsed);
+      if (broadcast) ws.publish(ws.data.project, JSON.stringify(broadcast)); // To all other clients of the project
+      if (reply) ws.send(JSON.stringify(reply));
+      // The clients have all changes, so their saves are based on the new revision
+      stored?.then(revision => {
+        if (revision !== null) server.publish(ws.data.project, JSON.stringify({ type: 'revision', revision }));
+      });
     },
     close(ws, code, message) {
       console.log("WebSocket client disconnected");
+      server.publish(ws.data.project, JSON.stringify(leaveSession(ws.data.project, ws.data.clientId)));
     },
   },
 });
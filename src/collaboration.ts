@@ -0,0 +1,171 @@
+import path from 'path';
+import type { ChangeVersion, CollaborationMessage, PageEntry, RemotePeer, SavedPositionData } from './interactions/types';
+import type { DocumentSettings } from './pageSettings';
+import { isNewerVersion } from './interactions/versions';
+import { updateSettings } from './projects';
+import { sanitizeFilename } from './utils.js';
+
+/**
+ * Editing a project with several clients: the clients send single item changes (and changes of
+ * the page list and the page setup) over the websocket, the server relays them to the other clients of the project and
+ * stores them in settings.json. Concurrent edits are resolved per item, the change with the newer
+ * version wins (see isNewerVersion()), on the server as well as on every client.
+ */
+
+interface ProjectSession {
+  clock: number; // Highest clock seen
+  resetClock: number; // Changes up to this clock were made before settings.json was replaced and are ignored
+  items: Map<string, { version: ChangeVersion; position: SavedPositionData | null }>; // Last accepted change per item
+  pages?: { version: ChangeVersion; pages: PageEntry[] };
+  document?: { version: ChangeVersion; document: DocumentSettings };
+  peers: Map<string, RemotePeer>;
+}
+
+// What to send after handling a message
+interface MessageResult {
+  broadcast?: CollaborationMessage; // To the other clients of the project
+  reply?: CollaborationMessage; // Back to the sender
+  stored?: Promise<number | null>; // Settings revision after storing the change (null if storing failed)
+}
+
+const PEER_COLORS = ['#e6194b', '#3cb44b', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324', '#469990'];
+
+const sessions = new Map<string, ProjectSession>();
+
+/**
+ * Returns the ID of a stored item. Items saved without ID get it from their filename (as in loadPositions()).
+ */
+function getObjectId(object: SavedPositionData): string | undefined {
+  return object.id ?? (object.filepath ? sanitizeFilename(path.basename(object.filepath)) : undefined);
+}
+
+function getSession(project: string): ProjectSession {
+  let session = sessions.get(project);
+  if (!session) {
+    session = { clock: 0, resetClock: 0, items: new Map(), peers: new Map() };
+    sessions.set(project, session);
+  }
+  return session;
+}
+
+/**
+ * Adds a client to the session of a project.
+ * @returns The welcome message for the client (its colour, the clock and the other clients).
+ */
+export function joinSession(project: string, clientId: string): CollaborationMessage {
+  const session = getSession(project);
+  const usedColors = new Set(Array.from(session.peers.values(), peer => peer.color));
+  const color = PEER_COLORS.find(color => !usedColors.has(color)) ?? PEER_COLORS[session.peers.size % PEER_COLORS.length]!;
+  const peers = Array.from(session.peers.values());
+  session.peers.set(clientId, { clientId, color, ids: [] });
+  return { type: 'welcome', clientId, color, clock: session.clock, peers };
+}
+
+/**
+ * Removes a client from the session of a project.
+ * @returns The message telling the other clients.
+ */
+export function leaveSession(project: string, clientId: string): CollaborationMessage {
+  const session = sessions.get(project);
+  session?.peers.delete(clientId);
+  if (session?.peers.size === 0) sessions.delete(project); // settings.json has all changes
+  return { type: 'leave', clientId };
+}
+
+/**
+ * Forgets the accepted changes of a project after its settings.json was replaced (a snapshot was restored),
+ * so changes are neither compared with nor answered by the state before.
+ * @returns The message telling the clients to load the new settings.
+ */
+export function resetSession(project: string, revision: number): CollaborationMessage {
+  const session = getSession(project);
+  session.items.clear();
+  session.pages = undefined;
+  session.document = undefined;
+  session.resetClock = session.clock;
+  return { type: 'reload', revision, clock: session.clock };
+}
+
+/**
+ * Stores an item change in the settings of a project.
+ * @returns The new settings revision, or null if storing failed.
+ */
+function storeItemChange(project: string, id: string, position: SavedPositionData | null): Promise<number | null> {
+  return updateSettings(project, settings => {
+    const objects = (settings.objects ?? []).filter(object => getObjectId(object) !== id);
+    if (position) {
+      const index = (settings.objects ?? []).findIndex(object => getObjectId(object) === id);
+      objects.splice(index === -1 ? objects.length : index, 0, { ...position, id });
+    }
+    return { ...settings, objects };
+  }).then(settings => settings.revision ?? null, error => {
+    console.error(`Error storing change of item ${id} in project ${project}:`, error);
+    return null;
+  });
+}
+
+function storePagesChange(project: string, pages: PageEntry[]): Promise<number | null> {
+  return updateSettings(project, settings => ({ ...settings, pages })).then(settings => settings.revision ?? null, error => {
+    console.error(`Error storing pages of project ${project}:`, error);
+    return null;
+  });
+}
+
+function storeDocumentChange(project: string, document: DocumentSettings): Promise<number | null> {
+  return updateSettings(project, settings => ({ ...settings, document })).then(settings => settings.revision ?? null, error => {
+    console.error(`Error storing page setup of project ${project}:`, error);
+    return null;
+  });
+}
+
+/**
+ * Handles a message from a client.
+ * Changes that are older than the last accepted change of the item are answered with the current item.
+ * @param project The project of the client.
+ * @param clientId The client that sent the message.
+ * @param message The parsed message.
+ */
+export function handleCollaborationMessage(project: string, clientId: string, message: CollaborationMessage): MessageResult {
+  const session = getSession(project);
+  if ('version' in message && message.version.clock <= session.resetClock) {
+    return {}; // Made before the restore, the client loads the restored settings
+  }
+  switch (message.type) {
+    case 'item': {
+      const version = { clock: message.version.clock, clientId };
+      session.clock = Math.max(session.clock, version.clock);
+      const current = session.items.get(message.id);
+      if (current && !isNewerVersion(version, current.version)) {
+        return { reply: { type: 'item', id: message.id, position: current.position, version: current.version } };
+      }
+      session.items.set(message.id, { version, position: message.position });
+      return { broadcast: { ...message, version }, stored: storeItemChange(project, message.id, message.position) };
+    }
+    case 'pages': {
+      const version = { clock: message.version.clock, clientId };
+      session.clock = Math.max(session.clock, version.clock);
+      if (session.pages && !isNewerVersion(version, session.pages.version)) {
+        return { reply: { type: 'pages', pages: session.pages.pages, version: session.pages.version } };
+      }
+      session.pages = { version, pages: message.pages };
+      return { broadcast: { ...message, version }, stored: storePagesChange(project, message.pages) };
+    }
+    case 'document': {
+      const version = { clock: message.version.clock, clientId };
+      session.clock = Math.max(session.clock, version.clock);
+      if (session.document && !isNewerVersion(version, session.document.version)) {
+        return { reply: { type: 'document', document: session.document.document, version: session.document.version } };
+      }
+      session.document = { version, document: message.document };
+      return { broadcast: { ...message, version }, stored: storeDocumentChange(project, message.document) };
+    }
+    case 'selection': {
+      const peer = session.peers.get(clientId);
+      if (!peer) return {};
+      peer.ids = message.ids;
+      return { broadcast: { type: 'selection', ids: peer.ids, clientId, color: peer.color } };
+    }
+    default:
+      return {};
+  }
+}
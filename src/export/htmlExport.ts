@@ -0,0 +1,170 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { getSongLines, renderSongHtml } from '../parsers/chordParser';
+import { getChordProLines } from '../parsers/chordProParser';
+import { prepareSvgMarkup } from '../parsers/svgParser';
+import { getParseOptions } from '../parsers/index';
+import { generatePageCss } from '../pageSettings';
+import type { SavedPositionData } from '../interactions/types';
+import type { LayoutSettings } from './types';
+import { loadItemFile } from './items';
+
+/**
+ * Static HTML export: a single self-contained file with all items parsed and positioned,
+ * so a layout can be viewed and printed without the server. The markup is the same as
+ * the one created by parseContent() and applyPositions() in the browser.
+ */
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+};
+
+// The exported file is for viewing and printing, items can't be dragged
+const STATIC_CSS = `
+.draggable-item {
+    cursor: default;
+
+    &:hover {
+        box-shadow: none;
+    }
+}
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the parsed content of an item (the element returned by the item's parser).
+ * @returns The HTML, or null if the item can't be exported.
+ */
+async function renderItemContent(pos: SavedPositionData, userDir: string): Promise<{ html: string; filename: string; parserName: string } | null> {
+  const file = await loadItemFile(pos, userDir);
+  if (!file) return null;
+  const { filename, data, content, parserName } = file;
+
+  let html: string;
+  switch (parserName) {
+    case 'chord':
+    case 'chordpro': {
+      const lines = parserName === 'chord'
+        ? getSongLines(content, filename, getParseOptions(pos))
+        : getChordProLines(content, filename, getParseOptions(pos));
+      html = `<div class="song-container">${renderSongHtml(lines)}</div>`;
+      break;
+    }
+    case 'html': {
+      const title = filename.split('.').slice(0, -1).join('.') || filename;
+      html = `<div class="parsed-html-content" data-title="${escapeHtml(title)}">${content}</div>`;
+      break;
+    }
+    case 'svg':
+      html = prepareSvgMarkup(content).svgContent;
+      break;
+    case 'image': {
+      const mimeType = IMAGE_MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+      html = `<img src="data:${mimeType};base64,${Buffer.from(data).toString('base64')}">`;
+      break;
+    }
+    default:
+      console.warn(`HTML export: ${parserName} items are not supported. Skipping.`);
+      return null;
+  }
+  return { html, filename, parserName };
+}
+
+/**
+ * Builds the inline style applyPositions() sets on an item container.
+ */
+function getItemStyle(pos: SavedPositionData): string {
+  const styles = [`left: ${pos.left}`, `top: ${pos.top}`, 'position: absolute'];
+  if (pos.width !== undefined) styles.push(`width: ${pos.width}`);
+  if (pos.height !== undefined) styles.push(`height: ${pos.height}`);
+  if (pos.opacity !== undefined) styles.push(`opacity: ${pos.opacity}`);
+  styles.push(`transform: rotate(${pos.rotation || 0}deg) scale(${pos.scale || '1'})`);
+  if (pos.zIndex !== undefined) styles.push(`--item-z-index: ${pos.zIndex}`);
+  return styles.join('; ');
+}
+
+/**
+ * Renders the container of an item, or of a group with its (visible) items.
+ * @param pos The stored item data.
+ * @param objects All items, to find the items of a group.
+ * @param userDir The directory the item files are loaded from.
+ * @returns The HTML, empty if the item can't be exported.
+ */
+async function renderPlacedItem(pos: SavedPositionData, objects: SavedPositionData[], userDir: string): Promise<string> {
+  const className = pos.groupId ? 'draggable-item grouped' : 'draggable-item';
+  if (pos.isGroup) {
+    const members = objects.filter(member => member.groupId === pos.id && !member.hidden);
+    const membersHtml = await Promise.all(members.map(member => renderPlacedItem(member, objects, userDir)));
+    return `<div class="${className} item-group" style="${getItemStyle(pos)}">${membersHtml.join('')}</div>`;
+  }
+
+  try {
+    const item = await renderItemContent(pos, userDir);
+    if (!item) return '';
+    return `<div class="${className}" data-filename="${escapeHtml(item.filename)}" data-parser="${item.parserName}" style="${getItemStyle(pos)}">${item.html}</div>`;
+  } catch (error) {
+    console.warn(`HTML export: can't render ${pos.filepath}. Skipping.`, error);
+    return '';
+  }
+}
+
+/**
+ * Renders the layout into a self-contained HTML file.
+ * Stylesheets are embedded, images are inlined as data URIs and SVGs as markup.
+ * @param settings The contents of settings.json.
+ * @param userDir The directory the item files are loaded from.
+ * @returns The HTML document.
+ */
+export async function exportHtml(settings: LayoutSettings, userDir: string): Promise<string> {
+  const [baseCss, extraCss] = await Promise.all([
+    readFile(path.join(process.cwd(), 'src', 'base-style.css'), 'utf-8'),
+    readFile(path.join(process.cwd(), 'src', 'extra-style.css'), 'utf-8'),
+  ]);
+
+  const objects = settings.objects ?? [];
+  const highestPageIndex = Math.max(-1, ...objects.map(pos => pos.pageIndex ?? 0));
+  const pageCount = Math.max(settings.pages?.length ?? 0, highestPageIndex + 1, 1);
+
+  const pageHtml: string[] = Array.from({ length: pageCount }, () => '');
+  for (const pos of objects) {
+    if (pos.hidden || pos.groupId) continue; // Items in groups are rendered with their group
+    const html = await renderPlacedItem(pos, objects, userDir);
+    if (html) pageHtml[pos.pageIndex ?? 0] += `        ${html}\n`;
+  }
+
+  const pagesHtml = pageHtml.map((items, index) =>
+    `    <div class="page-container" id="page-${index}">\n${items}    </div>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Song Chords</title>
+    <link rel="preconnect" href="https://fonts.googleapis.com">
+    <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+    <link href="https://fonts.googleapis.com/css2?family=Comfortaa:wght@400&display=swap" rel="stylesheet">
+    <style>
+${baseCss}
+    </style>
+    <style>
+${extraCss}
+    </style>
+    <style id="page-style">${generatePageCss(settings.document ?? {})}</style>
+    <style>${STATIC_CSS}</style>
+</head>
+<body>
+${pagesHtml}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,50 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { findParser, parsers } from '../parsers/index';
+import type { SavedPositionData } from '../interactions/types';
+
+/**
+ * Loading of item files for the server-side exports.
+ */
+
+export interface ItemFile {
+  filename: string;
+  data: Uint8Array; // Raw file contents (images)
+  content: string; // File contents as text (songs, HTML, SVG)
+  parserName: string;
+}
+
+/**
+ * Resolves a path like `/user/song.txt` and makes sure it points into the user directory.
+ * @returns The absolute path, or null if it is outside the user directory.
+ */
+export function resolveUserFile(filepath: string, userDir: string): string | null {
+  const resolvedUserDir = path.resolve(userDir);
+  const relativePath = filepath.replace(/^\/+/, '');
+  const resolvedPath = path.resolve(process.cwd(), relativePath);
+  return resolvedPath.startsWith(resolvedUserDir + path.sep) ? resolvedPath : null;
+}
+
+/**
+ * Reads the source file of an item and determines its parser (the stored one, or by filename/content).
+ * @param pos The stored item data.
+ * @param userDir The directory the item files are loaded from.
+ * @returns The file, or null if the item has no usable file (a warning is logged).
+ */
+export async function loadItemFile(pos: SavedPositionData, userDir: string): Promise<ItemFile | null> {
+  if (!pos.filepath) return null;
+  const filePath = resolveUserFile(pos.filepath, userDir);
+  if (!filePath) {
+    console.warn(`Export: ${pos.filepath} is outside the user directory. Skipping.`);
+    return null;
+  }
+  const filename = path.basename(filePath);
+  const data = new Uint8Array(await readFile(filePath));
+  const content = new TextDecoder().decode(data);
+  const parserName = pos.parser && parsers[pos.parser] ? pos.parser : findParser(filename, content)?.name;
+  if (!parserName) {
+    console.warn(`Export: no parser for ${filename}. Skipping.`);
+    return null;
+  }
+  return { filename, data, content, parserName };
+}
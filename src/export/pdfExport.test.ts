@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { exportPdf } from './pdfExport';
+import { formatNumber } from './pdfWriter';
+import { resolvePageSettings, PX_PER_MM } from '../pageSettings';
+import type { LayoutSettings } from './types';
+
+// A small project: a visible song, a hidden one, a group with a visible and a hidden item,
+// a rotated and scaled song and a song narrower than its title
+const FIXTURE_DIR = 'src/export/fixtures';
+
+// SHA-256 of the export of the settings below. If the output changes on purpose,
+// check the new PDF in a viewer and update the hash.
+const EXPECTED_SHA256 = '265f01296714c0b34c70cf2054afe5710ef3728d801283722f9c78d34e02beb7';
+
+const settings: LayoutSettings = {
+  pages: [{ id: 'page-a' }],
+  objects: [
+    { id: 'visible', filepath: `/${FIXTURE_DIR}/visible.txt`, parser: 'chord', left: '40px', top: '40px', pageIndex: 0 },
+    { id: 'hidden', filepath: `/${FIXTURE_DIR}/hidden.txt`, parser: 'chord', left: '40px', top: '200px', pageIndex: 0, hidden: true },
+    { id: 'group', left: '100px', top: '300px', width: '200px', height: '100px', pageIndex: 0, isGroup: true },
+    { id: 'member', filepath: `/${FIXTURE_DIR}/member.txt`, parser: 'chord', left: '10px', top: '20px', pageIndex: 0, groupId: 'group' },
+    { id: 'hidden-member', filepath: `/${FIXTURE_DIR}/hidden-member.txt`, parser: 'chord', left: '10px', top: '60px', pageIndex: 0, groupId: 'group', hidden: true },
+    { id: 'rotated', filepath: `/${FIXTURE_DIR}/rotated.txt`, parser: 'chord', left: '300px', top: '500px', width: '200px', height: '100px', scale: '0.5', rotation: 90, pageIndex: 0 },
+    { id: 'narrow', filepath: `/${FIXTURE_DIR}/narrow.cho`, parser: 'chordpro', left: '40px', top: '600px', width: '120px', pageIndex: 0 },
+  ],
+};
+
+// Height of the (default) page in pt, the PDF's y axis points up from the bottom
+const { height, bleed } = resolvePageSettings();
+const PAGE_HEIGHT_PT = (height + 2 * bleed) * PX_PER_MM * 0.75;
+
+function decode(pdf: Uint8Array): string {
+  return new TextDecoder('latin1').decode(pdf);
+}
+
+describe('PDF export', () => {
+  test('the layout gives the expected bytes', async () => {
+    const pdf = await exportPdf(settings, FIXTURE_DIR);
+    expect(createHash('sha256').update(pdf).digest('hex')).toBe(EXPECTED_SHA256);
+  });
+
+  test('hidden items are left out', async () => {
+    const pdf = decode(await exportPdf(settings, FIXTURE_DIR));
+    expect(pdf).toContain('(Visible song line) Tj');
+    expect(pdf).not.toContain('Hidden song line');
+    expect(pdf).not.toContain('Hidden grouped line');
+  });
+
+  test('items of a group are placed within the group', async () => {
+    const pdf = decode(await exportPdf(settings, FIXTURE_DIR));
+    expect(pdf).toContain('(Grouped song line) Tj');
+    // Left and top of the group + left and top of the item, in pt
+    expect(pdf).toContain(`\n0.75 0 0 -0.75 ${formatNumber((100 + 10) * 0.75)} ${formatNumber(PAGE_HEIGHT_PT - (300 + 20) * 0.75)} cm\n`);
+  });
+
+  test('rotated and scaled items are transformed around their centre', async () => {
+    const pdf = decode(await exportPdf(settings, FIXTURE_DIR));
+    // Scaled by 0.5 and rotated by 90° around the centre (400px, 550px): the top left corner is at (425px, 500px)
+    expect(pdf).toContain(`\n0 -0.375 -0.375 0 ${formatNumber(425 * 0.75)} ${formatNumber(PAGE_HEIGHT_PT - 500 * 0.75)} cm\n`);
+  });
+
+  test('titles wrap to the item width, lyrics lines do not', async () => {
+    const pdf = decode(await exportPdf(settings, FIXTURE_DIR));
+    for (const titleLine of ['A title that is too', 'long for the', 'narrow item']) {
+      expect(pdf).toContain(`(${titleLine}) Tj`);
+    }
+    expect(pdf).toContain('(A lyrics line that never wraps in the item) Tj');
+  });
+});
@@ -0,0 +1,535 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { getSongLines, type SongLine } from '../parsers/chordParser';
+import { getChordProLines } from '../parsers/chordProParser';
+import { getParseOptions } from '../parsers/index';
+import { resolvePageSettings, PX_PER_MM } from '../pageSettings';
+import type { SavedPositionData } from '../interactions/types';
+import type { LayoutSettings } from './types';
+import { loadItemFile, resolveUserFile } from './items';
+import { createPdfDocument, reserveObject, setObject, addObject, addStream, serializePdf, formatNumber, formatMatrix, multiplyMatrix, type Matrix, type PdfDocument } from './pdfWriter';
+import { addStandardFont, embedTrueTypeFont, encodeText, measureText, type PdfFont } from './pdfFonts';
+import { embedImage } from './pdfImages';
+import { convertSvg, parseColor } from './pdfSvg';
+
+/**
+ * Server-side PDF export: renders the layout of settings.json into a vector PDF,
+ * one PDF page per page container. The layout mirrors the browser rendering
+ * (base-style.css and extra-style.css), but text is set with the PDF font's metrics,
+ * so line widths can differ slightly from the screen.
+ * Items with a fixed width wrap text like the browser: titles, headers and comments break at spaces,
+ * lyrics lines never wrap (white-space: nowrap) and overflow the item on the right.
+ */
+
+// PDF points per CSS px
+const PT_PER_PX = 0.75;
+
+// Values from base-style.css and extra-style.css (CSS px)
+const BASE_FONT_SIZE = 13.2;
+const SONG_LINE_HEIGHT = 1.8;
+const CHORD_FONT_SIZE = 9.5;
+const HTML_LINE_HEIGHT = 1.2; // line-height: normal
+const TEXT_COLOR = '#2e281e';
+const DEFAULT_CHORD_COLOR = '#a8703d';
+const IMAGE_Z_INDEX = 5; // Images are placed behind the other items
+const ITEM_Z_INDEX = 10;
+
+interface TextRun {
+  text: string;
+  x: number;
+  baseline: number;
+  size: number;
+  color: string;
+}
+
+interface FilledRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  opacity?: number;
+}
+
+// A text item laid out in its own coordinates (px, origin at the top left corner, y pointing down)
+interface TextLayout {
+  width: number;
+  height: number;
+  runs: TextRun[];
+  rects: FilledRect[];
+}
+
+// Shared state while building the document
+interface ExportContext {
+  doc: PdfDocument;
+  font: PdfFont;
+  chordColor: string;
+  userDir: string;
+  images: Map<string, number>; // Resource name -> object number
+  opacityStates: Map<string, number>;
+}
+
+/**
+ * Reads the chord color from extra-style.css, so the export follows style changes.
+ */
+async function readChordColor(): Promise<string> {
+  try {
+    const css = await readFile(path.join(process.cwd(), 'src', 'extra-style.css'), 'utf-8');
+    return css.match(/--chord-color:\s*(#[0-9a-fA-F]{3,6})/)?.[1] ?? DEFAULT_CHORD_COLOR;
+  } catch {
+    return DEFAULT_CHORD_COLOR;
+  }
+}
+
+function colorOperator(color: string, stroke: boolean = false): string {
+  const [r, g, b] = parseColor(color) ?? [0, 0, 0];
+  return `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} ${stroke ? 'RG' : 'rg'}`;
+}
+
+/**
+ * Returns the distance from the top of a line box to the text baseline (same as CSS half-leading).
+ */
+function baselineOffset(font: PdfFont, size: number, lineHeight: number): number {
+  const contentHeight = size * (font.ascent - font.descent) / 1000;
+  return (lineHeight - contentHeight) / 2 + size * font.ascent / 1000;
+}
+
+/**
+ * Breaks text into lines that fit a width, at spaces like the browser wraps normal text
+ * (a word wider than the width gets a line of its own and overflows).
+ */
+function wrapText(font: PdfFont, text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(font, candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Stacks blocks vertically like the browser does, including collapsing adjacent margins.
+ */
+function createBlockStack() {
+  let y = 0;
+  let margins: number[] = [];
+  const collapse = () => Math.max(0, ...margins) + Math.min(0, ...margins);
+  return {
+    addMargin(margin: number) {
+      margins.push(margin);
+    },
+    // Places a block and returns its top position
+    place(height: number, marginTop: number, marginBottom: number): number {
+      margins.push(marginTop);
+      const top = y + collapse();
+      y = top + height;
+      margins = [marginBottom];
+      return top;
+    },
+    // Total height including the trailing margin (the item is a block formatting context root)
+    get height() {
+      return y + collapse();
+    },
+  };
+}
+
+/**
+ * Lays out a song (chord or ChordPro parser) like the `.song-container` markup is rendered.
+ * @param lines The song lines from the parser.
+ * @param fixedWidth The stored item width, if any (the item shrinks to its widest line otherwise).
+ */
+function layoutSong(lines: SongLine[], fixedWidth: number | undefined, context: ExportContext): TextLayout {
+  const { font, chordColor } = context;
+  const smallSize = BASE_FONT_SIZE * 0.9;
+  const titleSize = BASE_FONT_SIZE * 1.2;
+  const chorusIndent = 2 + 0.8 * BASE_FONT_SIZE; // border-left + padding-left
+  const commentPadding = 0.4 * smallSize;
+  const spaceWidth = measureText(font, ' ', BASE_FONT_SIZE);
+
+  const lyricsWidth = (line: Extract<SongLine, { type: 'lyrics' }>) => {
+    const trailingChords = Array.from(line.chordMap.keys()).filter(index => index >= line.lyrics.length).length;
+    return measureText(font, line.lyrics, BASE_FONT_SIZE) + trailingChords * spaceWidth;
+  };
+
+  // First pass: the item shrinks to its widest line
+  let width = 0;
+  let indent = 0;
+  for (const line of lines) {
+    let lineWidth = 0;
+    switch (line.type) {
+      case 'title': lineWidth = measureText(font, line.text, titleSize); break;
+      case 'header': lineWidth = measureText(font, line.text, BASE_FONT_SIZE); break;
+      case 'lyrics': lineWidth = lyricsWidth(line); break;
+      case 'section-start': indent = line.section === 'chorus' ? chorusIndent : 0; break;
+      case 'section-end': indent = 0; break;
+      case 'comment': lineWidth = measureText(font, line.text, smallSize) + 2 * commentPadding; break;
+      case 'break': break;
+      default: lineWidth = measureText(font, line.text, smallSize);
+    }
+    width = Math.max(width, indent + lineWidth);
+  }
+  width = fixedWidth ?? width;
+
+  // Second pass: place the lines
+  const runs: TextRun[] = [];
+  const rects: FilledRect[] = [];
+  const stack = createBlockStack();
+  indent = 0;
+  let chorusTop: number | null = null;
+  let chorusBottom = 0;
+
+  const addCenteredLine = (text: string, size: number, color: string, marginTop: number, marginBottom: number) => {
+    const lineHeight = size * SONG_LINE_HEIGHT;
+    const wrappedLines = wrapText(font, text, size, width - indent);
+    const top = stack.place(wrappedLines.length * lineHeight, marginTop, marginBottom);
+    wrappedLines.forEach((wrappedLine, index) => {
+      const x = indent + Math.max(0, (width - indent - measureText(font, wrappedLine, size)) / 2);
+      runs.push({ text: wrappedLine, x, baseline: top + index * lineHeight + baselineOffset(font, size, lineHeight), size, color });
+    });
+    return { top, bottom: top + wrappedLines.length * lineHeight };
+  };
+  const trackChorus = (top: number, bottom: number) => {
+    if (indent === 0) return;
+    chorusTop ??= top;
+    chorusBottom = bottom;
+  };
+
+  for (const line of lines) {
+    switch (line.type) {
+      case 'title':
+        addCenteredLine(line.text, titleSize, chordColor, 0.83 * titleSize, 10); // h2 default margin-top
+        break;
+      case 'capo':
+        addCenteredLine(line.text, smallSize, chordColor, -8, 10);
+        break;
+      case 'subtitle':
+      case 'artist':
+        addCenteredLine(line.text, smallSize, TEXT_COLOR, -8, 10);
+        break;
+      case 'header': {
+        const { top, bottom } = addCenteredLine(line.text, BASE_FONT_SIZE, chordColor, 0.6 * BASE_FONT_SIZE, 0.2 * BASE_FONT_SIZE);
+        trackChorus(top, bottom);
+        break;
+      }
+      case 'section-label':
+      case 'comment': {
+        const lineHeight = smallSize * SONG_LINE_HEIGHT;
+        const padding = line.type === 'comment' ? commentPadding : 0;
+        const wrappedLines = wrapText(font, line.text, smallSize, width - indent - 2 * padding);
+        const height = wrappedLines.length * lineHeight;
+        const top = stack.place(height, 0, 0.3 * smallSize);
+        if (line.type === 'comment') {
+          // Background mixed from the chord color (12%), as wide as the longest line (width: fit-content)
+          const textWidth = Math.max(...wrappedLines.map(wrappedLine => measureText(font, wrappedLine, smallSize)));
+          rects.push({ x: indent, y: top, width: textWidth + 2 * padding, height, color: chordColor, opacity: 0.12 });
+        }
+        wrappedLines.forEach((wrappedLine, index) => {
+          runs.push({ text: wrappedLine, x: indent + padding, baseline: top + index * lineHeight + baselineOffset(font, smallSize, lineHeight), size: smallSize, color: chordColor });
+        });
+        trackChorus(top, top + height);
+        break;
+      }
+      case 'lyrics': {
+        // Empty lines have no line box, only their bottom margin
+        const isEmpty = !line.lyrics && line.chordMap.size === 0;
+        const lineHeight = isEmpty ? 0 : BASE_FONT_SIZE * SONG_LINE_HEIGHT;
+        const top = stack.place(lineHeight, 0, 0.3 * BASE_FONT_SIZE);
+        if (isEmpty) break;
+        // Centred with auto margins, a line wider than the item starts at its left edge
+        const x = indent + Math.max(0, (width - indent - lyricsWidth(line)) / 2);
+        const baseline = top + baselineOffset(font, BASE_FONT_SIZE, lineHeight);
+
+        // "(2x)" is highlighted in the chord color
+        let segmentX = x;
+        for (const segment of line.lyrics.split(/(\(2x\))/)) {
+          if (!segment) continue;
+          runs.push({ text: segment, x: segmentX, baseline, size: BASE_FONT_SIZE, color: segment === '(2x)' ? chordColor : TEXT_COLOR });
+          segmentX += measureText(font, segment, BASE_FONT_SIZE);
+        }
+
+        // Chords are positioned above their character (top: -0.5em, left: 0.1em, line-height: 1)
+        let trailingIndex = 0;
+        const chordBaseline = top - 0.5 * CHORD_FONT_SIZE + baselineOffset(font, CHORD_FONT_SIZE, CHORD_FONT_SIZE);
+        const sortedChords = Array.from(line.chordMap.entries()).sort(([a], [b]) => a - b);
+        for (const [index, chord] of sortedChords) {
+          const offset = index < line.lyrics.length
+            ? measureText(font, line.lyrics.slice(0, index), BASE_FONT_SIZE)
+            : measureText(font, line.lyrics, BASE_FONT_SIZE) + spaceWidth * trailingIndex++;
+          runs.push({ text: chord, x: x + offset + 0.1 * CHORD_FONT_SIZE, baseline: chordBaseline, size: CHORD_FONT_SIZE, color: chordColor });
+        }
+        trackChorus(top, top + lineHeight);
+        break;
+      }
+      case 'section-start':
+        stack.addMargin(0.5 * BASE_FONT_SIZE);
+        indent = line.section === 'chorus' ? chorusIndent : 0;
+        break;
+      case 'section-end':
+        if (chorusTop !== null) {
+          rects.push({ x: 0, y: chorusTop, width: 2, height: chorusBottom - chorusTop, color: chordColor });
+        }
+        chorusTop = null;
+        indent = 0;
+        stack.addMargin(0.5 * BASE_FONT_SIZE);
+        break;
+      case 'break':
+        stack.place(0.8 * BASE_FONT_SIZE, 0, 0);
+        break;
+    }
+  }
+
+  return { width, height: stack.height, runs, rects };
+}
+
+/**
+ * Lays out an HTML item as plain text (the export has no HTML renderer),
+ * keeping the line breaks of block elements and <br> and wrapping lines to a fixed width.
+ * @param content The HTML source.
+ * @param fixedWidth The stored item width, if any.
+ */
+function layoutHtml(content: string, fixedWidth: number | undefined, context: ExportContext): TextLayout {
+  const text = content
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|h[1-6]|li|tr|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+  const lines = text.split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .flatMap(line => fixedWidth !== undefined ? wrapText(context.font, line, BASE_FONT_SIZE, fixedWidth) : [line]);
+  while (lines.length && !lines[lines.length - 1]) lines.pop();
+
+  const lineHeight = BASE_FONT_SIZE * HTML_LINE_HEIGHT;
+  const runs = lines.map((line, index) => ({
+    text: line,
+    x: 0,
+    baseline: index * lineHeight + baselineOffset(context.font, BASE_FONT_SIZE, lineHeight),
+    size: BASE_FONT_SIZE,
+    color: TEXT_COLOR,
+  }));
+  const width = fixedWidth ?? Math.max(0, ...lines.map(line => measureText(context.font, line, BASE_FONT_SIZE)));
+  return { width, height: lines.length * lineHeight, runs, rects: [] };
+}
+
+function renderTextLayout(layout: TextLayout, context: ExportContext): string {
+  const operators: string[] = [];
+  for (const rect of layout.rects) {
+    const opacityState = rect.opacity !== undefined ? `/${getOpacityState(rect.opacity, context)} gs ` : '';
+    operators.push(`q ${opacityState}${colorOperator(rect.color)} ${[rect.x, rect.y, rect.width, rect.height].map(formatNumber).join(' ')} re f Q`);
+  }
+  for (const run of layout.runs) {
+    if (!run.text) continue;
+    // The item coordinates point down, flip the text matrix so glyphs stay upright
+    operators.push(`BT /F1 ${formatNumber(run.size)} Tf ${colorOperator(run.color)} 1 0 0 -1 ${formatNumber(run.x)} ${formatNumber(run.baseline)} Tm ${encodeText(run.text)} Tj ET`);
+  }
+  return operators.join('\n');
+}
+
+/**
+ * Returns the resource name of a graphics state with the given opacity.
+ */
+function getOpacityState(opacity: number, context: ExportContext): string {
+  const key = formatNumber(opacity);
+  const name = `GS${key.replace('.', '_')}`;
+  if (!context.opacityStates.has(name)) {
+    context.opacityStates.set(name, addObject(context.doc, `<< /Type /ExtGState /ca ${key} /CA ${key} >>`));
+  }
+  return name;
+}
+
+function parsePixels(value: string | undefined): number | undefined {
+  const pixels = parseFloat(value ?? '');
+  return Number.isFinite(pixels) && pixels > 0 ? pixels : undefined;
+}
+
+/**
+ * Renders one item into PDF operators in item coordinates.
+ * @returns The operators and the item's box size, or null if the item can't be exported.
+ */
+async function renderItem(pos: SavedPositionData, context: ExportContext): Promise<{ operators: string; width: number; height: number } | null> {
+  const file = await loadItemFile(pos, context.userDir);
+  if (!file) return null;
+  const { filename, data, content, parserName } = file;
+  const fixedWidth = parsePixels(pos.width);
+  const fixedHeight = parsePixels(pos.height);
+  const options = getParseOptions(pos);
+
+  switch (parserName) {
+    case 'chord':
+    case 'chordpro': {
+      const lines = parserName === 'chord' ? getSongLines(content, filename, options) : getChordProLines(content, filename, options);
+      const layout = layoutSong(lines, fixedWidth, context);
+      return { operators: renderTextLayout(layout, context), width: layout.width, height: fixedHeight ?? layout.height };
+    }
+    case 'html': {
+      const layout = layoutHtml(content, fixedWidth, context);
+      return { operators: renderTextLayout(layout, context), width: layout.width, height: fixedHeight ?? layout.height };
+    }
+    case 'svg': {
+      const drawing = convertSvg(content, context.chordColor);
+      const [viewX, viewY, viewWidth, viewHeight] = drawing.viewBox;
+      const width = fixedWidth ?? viewWidth;
+      // The SVG fills the item width, its height follows the aspect ratio
+      const scale = width / viewWidth;
+      const matrix: Matrix = [scale, 0, 0, scale, -viewX * scale, -viewY * scale];
+      return { operators: `q ${formatMatrix(matrix)} cm\n${drawing.operators}\nQ`, width, height: fixedHeight ?? viewHeight * scale };
+    }
+    case 'image': {
+      const image = embedImage(context.doc, data);
+      if (!image) {
+        console.warn(`PDF export: image format of ${filename} is not supported (only JPEG and PNG). Skipping.`);
+        return null;
+      }
+      const name = `Im${context.images.size + 1}`;
+      context.images.set(name, image.ref);
+      const width = fixedWidth ?? image.width;
+      // max-width: 100%, height: auto
+      const drawWidth = Math.min(width, image.width);
+      const drawHeight = drawWidth * image.height / image.width;
+      const left = (width - drawWidth) / 2;
+      return { operators: `q ${formatMatrix([drawWidth, 0, 0, -drawHeight, left, drawHeight])} cm /${name} Do Q`, width, height: fixedHeight ?? drawHeight };
+    }
+    default:
+      console.warn(`PDF export: ${parserName} items are not supported. Skipping.`);
+      return null;
+  }
+}
+
+/**
+ * The stacking order of an item, as in the CSS: the stored one or the default of its layer.
+ */
+function getZIndex(pos: SavedPositionData): number {
+  return pos.zIndex ?? (pos.parser === 'image' ? IMAGE_Z_INDEX : ITEM_Z_INDEX);
+}
+
+/**
+ * Returns the matrix from item coordinates to the coordinates of the item's parent (page or group).
+ * Same as the CSS transform: rotate and scale around the centre of the item.
+ */
+function getItemMatrix(pos: SavedPositionData, width: number, height: number): Matrix {
+  const left = parseFloat(pos.left) || 0;
+  const top = parseFloat(pos.top) || 0;
+  const scale = parseFloat(pos.scale ?? '1') || 1;
+  const radians = (pos.rotation ?? 0) * Math.PI / 180;
+  let matrix: Matrix = [1, 0, 0, 1, -width / 2, -height / 2];
+  matrix = multiplyMatrix(matrix, [scale, 0, 0, scale, 0, 0]);
+  matrix = multiplyMatrix(matrix, [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0]);
+  return multiplyMatrix(matrix, [1, 0, 0, 1, left + width / 2, top + height / 2]);
+}
+
+/**
+ * Renders an item placed on a page, or a group with its (visible) items.
+ * @param pos The stored item data.
+ * @param objects All items, to find the items of a group.
+ * @param parentMatrix The matrix of the page or the group the item is in.
+ * @param parentOpacity The opacity of the groups the item is in (PDF opacities don't multiply).
+ * @returns The PDF operators.
+ */
+async function renderPlacedItem(pos: SavedPositionData, objects: SavedPositionData[], parentMatrix: Matrix, parentOpacity: number, context: ExportContext): Promise<string[]> {
+  const opacity = (pos.opacity ?? 1) * parentOpacity;
+
+  if (pos.isGroup) {
+    const matrix = multiplyMatrix(getItemMatrix(pos, parsePixels(pos.width) ?? 0, parsePixels(pos.height) ?? 0), parentMatrix);
+    const members = objects
+      .filter(member => member.groupId === pos.id && !member.hidden)
+      .sort((a, b) => getZIndex(a) - getZIndex(b));
+    const operators: string[] = [];
+    for (const member of members) {
+      operators.push(...await renderPlacedItem(member, objects, matrix, opacity, context));
+    }
+    return operators;
+  }
+
+  try {
+    const item = await renderItem(pos, context);
+    if (!item) return [];
+    const matrix = multiplyMatrix(getItemMatrix(pos, item.width, item.height), parentMatrix);
+    const opacityState = opacity < 1 ? `/${getOpacityState(opacity, context)} gs\n` : '';
+    return [`q\n${formatMatrix(matrix)} cm\n${opacityState}${item.operators}\nQ`];
+  } catch (error) {
+    console.warn(`PDF export: can't render ${pos.filepath}. Skipping.`, error);
+    return [];
+  }
+}
+
+/**
+ * Renders the layout into a PDF.
+ * @param settings The contents of settings.json.
+ * @param userDir The directory the item files are loaded from.
+ * @returns The PDF file contents.
+ */
+export async function exportPdf(settings: LayoutSettings, userDir: string): Promise<Uint8Array> {
+  const doc = createPdfDocument();
+  const catalogRef = reserveObject(doc);
+  const pagesRef = reserveObject(doc);
+  const resourcesRef = reserveObject(doc);
+
+  // A TrueType font from the user directory is embedded, Helvetica is used otherwise
+  let font: PdfFont | null = null;
+  const fontFile = settings.document?.pdfFont;
+  if (fontFile) {
+    const fontPath = resolveUserFile(path.posix.join('/', userDir, fontFile), userDir);
+    try {
+      if (!fontPath) throw new Error('The font has to be in the user directory.');
+      font = embedTrueTypeFont(doc, new Uint8Array(await readFile(fontPath)), path.parse(fontPath).name);
+    } catch (error) {
+      console.warn(`PDF export: can't embed font ${fontFile}, using Helvetica.`, error);
+    }
+  }
+
+  const context: ExportContext = {
+    doc,
+    font: font ?? addStandardFont(doc),
+    chordColor: await readChordColor(),
+    userDir,
+    images: new Map(),
+    opacityStates: new Map(),
+  };
+
+  const { width, height, bleed } = resolvePageSettings(settings.document ?? {});
+  const paperWidth = (width + 2 * bleed) * PX_PER_MM * PT_PER_PX;
+  const paperHeight = (height + 2 * bleed) * PX_PER_MM * PT_PER_PX;
+  const bleedPoints = bleed * PX_PER_MM * PT_PER_PX;
+  // Page coordinates: CSS px from the top left corner, y pointing down
+  const pageMatrix: Matrix = [PT_PER_PX, 0, 0, -PT_PER_PX, 0, paperHeight];
+
+  const objects = settings.objects ?? [];
+  const highestPageIndex = Math.max(-1, ...objects.map(pos => pos.pageIndex ?? 0));
+  const pageCount = Math.max(settings.pages?.length ?? 0, highestPageIndex + 1, 1);
+
+  const pageRefs: number[] = [];
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    // Stable sort by z-index keeps the stored order within a layer (same as the DOM order).
+    // Items in groups are rendered with their group.
+    const pageItems = objects
+      .filter(pos => (pos.pageIndex ?? 0) === pageIndex && !pos.hidden && !pos.groupId)
+      .sort((a, b) => getZIndex(a) - getZIndex(b));
+
+    const operators: string[] = [];
+    for (const pos of pageItems) {
+      operators.push(...await renderPlacedItem(pos, objects, pageMatrix, 1, context));
+    }
+
+    const contentRef = addStream(doc, '', operators.join('\n'));
+    const mediaBox = `[0 0 ${formatNumber(paperWidth)} ${formatNumber(paperHeight)}]`;
+    const trimBox = bleed > 0
+      ? ` /BleedBox ${mediaBox} /TrimBox [${[bleedPoints, bleedPoints, paperWidth - bleedPoints, paperHeight - bleedPoints].map(formatNumber).join(' ')}]`
+      : '';
+    pageRefs.push(addObject(doc, `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox ${mediaBox}${trimBox} /Resources ${resourcesRef} 0 R /Contents ${contentRef} 0 R >>`));
+  }
+
+  // All pages share one resource dictionary
+  const xObjects = Array.from(context.images, ([name, ref]) => `/${name} ${ref} 0 R`).join(' ');
+  const states = Array.from(context.opacityStates, ([name, ref]) => `/${name} ${ref} 0 R`).join(' ');
+  setObject(doc, resourcesRef, `<< /Font << /F1 ${context.font.ref} 0 R >> /XObject << ${xObjects} >> /ExtGState << ${states} >> >>`);
+  setObject(doc, pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`);
+  setObject(doc, catalogRef, `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+
+  return serializePdf(doc, catalogRef);
+}
@@ -0,0 +1,222 @@
+import { deflateSync } from 'zlib';
+import { addObject, addStream, formatName, formatNumber, type PdfDocument } from './pdfWriter';
+
+/**
+ * Fonts for the PDF export. Text is written in WinAnsiEncoding (Windows-1252),
+ * which covers the characters used in western song sheets.
+ */
+
+export interface PdfFont {
+  ref: number; // Object number of the font dictionary
+  ascent: number; // In 1/1000 em
+  descent: number; // In 1/1000 em (negative)
+  widths: number[]; // Advance widths of the WinAnsi codes 0-255 in 1/1000 em
+}
+
+// Unicode code points of the WinAnsi codes 128-159 (0 = unused), the other codes match Latin-1
+const WIN_ANSI_HIGH = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+  0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178,
+];
+
+// Helvetica advance widths (from the standard AFM) for the codes 32-126, 128-159 and 160-255
+const HELVETICA_ASCII = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_HIGH = [
+  556, 0, 222, 556, 333, 1000, 556, 556, 333, 1000, 667, 333, 1000, 0, 611, 0,
+  0, 222, 222, 333, 333, 350, 556, 1000, 333, 1000, 500, 333, 944, 0, 500, 667,
+];
+const HELVETICA_LATIN1 = [
+  278, 333, 556, 556, 556, 556, 260, 556, 333, 737, 370, 556, 584, 333, 737, 333,
+  400, 584, 333, 333, 333, 556, 537, 278, 333, 333, 365, 556, 834, 834, 834, 611,
+  667, 667, 667, 667, 667, 667, 1000, 722, 667, 667, 667, 667, 278, 278, 278, 278,
+  722, 722, 778, 778, 778, 778, 778, 584, 778, 722, 722, 722, 722, 667, 667, 611,
+  556, 556, 556, 556, 556, 556, 889, 500, 556, 556, 556, 556, 278, 278, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 584, 611, 556, 556, 556, 556, 500, 556, 500,
+];
+
+/**
+ * Returns the Unicode code point of a WinAnsi code.
+ */
+function winAnsiToUnicode(code: number): number {
+  return code >= 128 && code < 160 ? WIN_ANSI_HIGH[code - 128] ?? 0 : code;
+}
+
+const UNICODE_TO_WIN_ANSI = new Map<number, number>(
+  WIN_ANSI_HIGH.map((unicode, index) => [unicode, index + 128] as [number, number]).filter(([unicode]) => unicode !== 0)
+);
+
+/**
+ * Converts text to WinAnsi codes. Characters that can't be encoded become '?'.
+ */
+export function toWinAnsi(text: string): number[] {
+  return Array.from(text, char => {
+    const unicode = char.codePointAt(0) ?? 63;
+    if ((unicode >= 32 && unicode < 127) || (unicode >= 160 && unicode <= 255)) return unicode;
+    return UNICODE_TO_WIN_ANSI.get(unicode) ?? 63;
+  });
+}
+
+/**
+ * Encodes text as a PDF string literal, e.g. `(Hello \(2x\))`.
+ */
+export function encodeText(text: string): string {
+  return '(' + toWinAnsi(text).map(code => {
+    if (code === 40 || code === 41 || code === 92) return '\\' + String.fromCharCode(code);
+    return code < 127 ? String.fromCharCode(code) : '\\' + code.toString(8).padStart(3, '0');
+  }).join('') + ')';
+}
+
+/**
+ * Measures text set in a font.
+ * @param size The font size (any unit, the result has the same unit).
+ */
+export function measureText(font: PdfFont, text: string, size: number): number {
+  return toWinAnsi(text).reduce((sum, code) => sum + (font.widths[code] ?? 0), 0) * size / 1000;
+}
+
+/**
+ * Adds Helvetica, one of the standard fonts every PDF viewer provides (it is not embedded).
+ */
+export function addStandardFont(doc: PdfDocument): PdfFont {
+  const widths = Array.from({ length: 256 }, (_, code) => {
+    if (code >= 32 && code <= 126) return HELVETICA_ASCII[code - 32]!;
+    if (code >= 128 && code < 160) return HELVETICA_HIGH[code - 128]!;
+    if (code >= 160) return HELVETICA_LATIN1[code - 160]!;
+    return 0;
+  });
+  const ref = addObject(doc, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  return { ref, ascent: 718, descent: -207, widths };
+}
+
+interface TrueTypeTables {
+  [tag: string]: { offset: number; length: number };
+}
+
+function readTables(view: DataView): TrueTypeTables {
+  const tables: TrueTypeTables = {};
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const recordOffset = 12 + i * 16;
+    const tag = String.fromCharCode(...[0, 1, 2, 3].map(index => view.getUint8(recordOffset + index)));
+    tables[tag] = { offset: view.getUint32(recordOffset + 8), length: view.getUint32(recordOffset + 12) };
+  }
+  return tables;
+}
+
+/**
+ * Builds a Unicode to glyph ID lookup from the format 4 subtable of the 'cmap' table.
+ */
+function readCharacterMap(view: DataView, cmapOffset: number): (unicode: number) => number {
+  const numSubtables = view.getUint16(cmapOffset + 2);
+  let subtableOffset = -1;
+  for (let i = 0; i < numSubtables; i++) {
+    const platformId = view.getUint16(cmapOffset + 4 + i * 8);
+    const encodingId = view.getUint16(cmapOffset + 6 + i * 8);
+    const offset = cmapOffset + view.getUint32(cmapOffset + 8 + i * 8);
+    // Windows Unicode BMP or Unicode platform
+    if (((platformId === 3 && encodingId === 1) || platformId === 0) && view.getUint16(offset) === 4) {
+      subtableOffset = offset;
+      break;
+    }
+  }
+  if (subtableOffset === -1) throw new Error('Font has no Unicode character map (cmap format 4).');
+
+  const segCount = view.getUint16(subtableOffset + 6) / 2;
+  const endCodes = subtableOffset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  return (unicode: number) => {
+    for (let segment = 0; segment < segCount; segment++) {
+      if (view.getUint16(endCodes + segment * 2) < unicode) continue;
+      const start = view.getUint16(startCodes + segment * 2);
+      if (start > unicode) return 0;
+      const delta = view.getUint16(idDeltas + segment * 2);
+      const rangeOffsetPosition = idRangeOffsets + segment * 2;
+      const rangeOffset = view.getUint16(rangeOffsetPosition);
+      if (rangeOffset === 0) return (unicode + delta) & 0xffff;
+      const glyph = view.getUint16(rangeOffsetPosition + rangeOffset + (unicode - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Reads the PostScript name (name ID 6) of a font.
+ */
+function readPostScriptName(view: DataView, nameOffset: number): string | null {
+  const count = view.getUint16(nameOffset + 2);
+  const stringsOffset = nameOffset + view.getUint16(nameOffset + 4);
+  for (let i = 0; i < count; i++) {
+    const record = nameOffset + 6 + i * 12;
+    if (view.getUint16(record + 6) !== 6) continue;
+    const platformId = view.getUint16(record);
+    const length = view.getUint16(record + 8);
+    const offset = stringsOffset + view.getUint16(record + 10);
+    let name = '';
+    if (platformId === 3 || platformId === 0) {
+      for (let j = 0; j < length; j += 2) name += String.fromCharCode(view.getUint16(offset + j)); // UTF-16BE
+    } else {
+      for (let j = 0; j < length; j++) name += String.fromCharCode(view.getUint8(offset + j));
+    }
+    if (name) return name;
+  }
+  return null;
+}
+
+/**
+ * Embeds a TrueType font file (.ttf) so the PDF looks the same on every system.
+ * @param data The font file.
+ * @param fallbackName Used as font name if the font has none.
+ * @throws If the file is no TrueType font (e.g. CFF based .otf files).
+ */
+export function embedTrueTypeFont(doc: PdfDocument, data: Uint8Array, fallbackName: string): PdfFont {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565) { // 'true'
+    throw new Error('Only TrueType fonts (.ttf) can be embedded.');
+  }
+
+  const tables = readTables(view);
+  const { head, hhea, hmtx, cmap } = tables;
+  if (!head || !hhea || !hmtx || !cmap) throw new Error('Font is missing required tables.');
+
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const scale = 1000 / unitsPerEm;
+  const bbox = [36, 38, 40, 42].map(offset => Math.round(view.getInt16(head.offset + offset) * scale));
+  const ascent = Math.round(view.getInt16(hhea.offset + 4) * scale);
+  const descent = Math.round(view.getInt16(hhea.offset + 6) * scale);
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const os2 = tables['OS/2'];
+  const capHeight = os2 && view.getUint16(os2.offset) >= 2 ? Math.round(view.getInt16(os2.offset + 88) * scale) : ascent;
+
+  const glyphFor = readCharacterMap(view, cmap.offset);
+  const advanceOf = (glyph: number) => view.getUint16(hmtx.offset + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  const widths = Array.from({ length: 256 }, (_, code) => {
+    const unicode = winAnsiToUnicode(code);
+    return code < 32 || unicode === 0 ? 0 : Math.round(advanceOf(glyphFor(unicode)) * scale);
+  });
+
+  const name = (tables.name && readPostScriptName(view, tables.name.offset)) || fallbackName;
+  const fontName = formatName(name.replace(/\s+/g, ''));
+
+  const fileRef = addStream(doc, `/Filter /FlateDecode /Length1 ${data.length}`, deflateSync(data));
+  const descriptorRef = addObject(doc, `<< /Type /FontDescriptor /FontName ${fontName} /Flags 32 ` +
+    `/FontBBox [${bbox.join(' ')}] /ItalicAngle 0 /Ascent ${ascent} /Descent ${descent} ` +
+    `/CapHeight ${capHeight} /StemV 80 /FontFile2 ${fileRef} 0 R >>`);
+  const ref = addObject(doc, `<< /Type /Font /Subtype /TrueType /BaseFont ${fontName} ` +
+    `/FirstChar 32 /LastChar 255 /Widths [${widths.slice(32).map(formatNumber).join(' ')}] ` +
+    `/Encoding /WinAnsiEncoding /FontDescriptor ${descriptorRef} 0 R >>`);
+
+  return { ref, ascent, descent, widths };
+}
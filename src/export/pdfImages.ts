@@ -0,0 +1,185 @@
+import { deflateSync, inflateSync } from 'zlib';
+import { addStream, concatBytes, type PdfDocument } from './pdfWriter';
+
+/**
+ * Image embedding for the PDF export. JPEG data is embedded as is,
+ * PNG data is embedded with its compression (transparency becomes a soft mask).
+ */
+
+export interface PdfImage {
+  ref: number; // Object number of the image XObject
+  width: number; // Pixels
+  height: number; // Pixels
+}
+
+/**
+ * Embeds a JPEG image by reading its dimensions from the frame header.
+ */
+function embedJpeg(doc: PdfDocument, data: Uint8Array): PdfImage {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 2; // Skip the SOI marker
+  while (offset + 4 < data.length) {
+    if (data[offset] !== 0xff) throw new Error('Invalid JPEG marker.');
+    const marker = data[offset + 1]!;
+    const length = view.getUint16(offset + 2);
+    // Start of frame markers (SOF0-SOF15 without DHT, JPG and DAC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = view.getUint16(offset + 5);
+      const width = view.getUint16(offset + 7);
+      const components = data[offset + 9];
+      const colorSpace = components === 1 ? '/DeviceGray' : components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      // CMYK JPEGs (from Photoshop) store inverted values
+      const decode = components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+      const ref = addStream(doc, `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+        `/ColorSpace ${colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`, data);
+      return { ref, width, height };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no frame header.');
+}
+
+/**
+ * Reverses the PNG row filters.
+ * @param data The inflated image data (a filter type byte before every row).
+ * @param rowLength Bytes per row (without the filter byte).
+ * @param bytesPerPixel Bytes per complete pixel (at least 1).
+ */
+function unfilterPng(data: Uint8Array, rowLength: number, height: number, bytesPerPixel: number): Uint8Array {
+  const result = new Uint8Array(rowLength * height);
+  for (let row = 0; row < height; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const source = row * (rowLength + 1) + 1;
+    const target = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[source + i] ?? 0;
+      const left = i >= bytesPerPixel ? result[target + i - bytesPerPixel]! : 0;
+      const up = row > 0 ? result[target - rowLength + i]! : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? result[target - rowLength + i - bytesPerPixel]! : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        // Paeth predictor
+        const estimate = left + up - upLeft;
+        const distanceLeft = Math.abs(estimate - left);
+        const distanceUp = Math.abs(estimate - up);
+        const distanceUpLeft = Math.abs(estimate - upLeft);
+        predictor = distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft ? left : distanceUp <= distanceUpLeft ? up : upLeft;
+      }
+      result[target + i] = (raw + predictor) & 0xff;
+    }
+  }
+  return result;
+}
+
+/**
+ * Embeds a PNG image. Images without transparency keep their compressed data,
+ * images with an alpha channel or transparent palette entries get a soft mask.
+ */
+function embedPng(doc: PdfDocument, data: Uint8Array): PdfImage {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const dataChunks: Uint8Array[] = [];
+
+  let offset = 8; // Skip the signature
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = chunk[8]!;
+      colorType = chunk[9]!;
+      interlace = chunk[12]!;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      dataChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (interlace) throw new Error('Interlaced PNGs are not supported.');
+
+  const compressed = concatBytes(dataChunks);
+  const hasAlphaChannel = colorType === 4 || colorType === 6;
+  const colorComponents = colorType === 2 || colorType === 6 ? 3 : 1;
+  const colorSpace = colorType === 3 && palette
+    ? `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${Buffer.from(palette).toString('hex')}>]`
+    : colorComponents === 3 ? '/DeviceRGB' : '/DeviceGray';
+  const imageDictionary = (components: number, bits: number, colorSpaceEntry: string) =>
+    `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpaceEntry} /BitsPerComponent ${bits}`;
+  const predictorParameters = (components: number, bits: number) =>
+    `/DecodeParms << /Predictor 15 /Colors ${components} /BitsPerComponent ${bits} /Columns ${width} >>`;
+
+  if (!hasAlphaChannel && !(colorType === 3 && transparency)) {
+    // The PNG data can be used as is, PDF supports the PNG predictors
+    const ref = addStream(doc, `${imageDictionary(colorComponents, bitDepth, colorSpace)} /Filter /FlateDecode ` +
+      predictorParameters(colorComponents, bitDepth), compressed);
+    return { ref, width, height };
+  }
+
+  const channels = hasAlphaChannel ? colorComponents + 1 : 1;
+  const rowLength = Math.ceil(width * channels * bitDepth / 8);
+  const pixels = unfilterPng(inflateSync(compressed), rowLength, height, Math.max(1, channels * bitDepth / 8));
+  const alpha = new Uint8Array(width * height);
+
+  if (hasAlphaChannel) {
+    // Split color and alpha (16 bit samples are reduced to their high byte)
+    const bytesPerSample = bitDepth / 8;
+    const color = new Uint8Array(width * height * colorComponents);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      const source = pixel * channels * bytesPerSample;
+      for (let component = 0; component < colorComponents; component++) {
+        color[pixel * colorComponents + component] = pixels[source + component * bytesPerSample]!;
+      }
+      alpha[pixel] = pixels[source + colorComponents * bytesPerSample]!;
+    }
+    const maskRef = addStream(doc, `${imageDictionary(1, 8, '/DeviceGray')} /Filter /FlateDecode`, deflateSync(alpha));
+    const ref = addStream(doc, `${imageDictionary(colorComponents, 8, colorSpace)} /SMask ${maskRef} 0 R /Filter /FlateDecode`, deflateSync(color));
+    return { ref, width, height };
+  }
+
+  // Palette image with transparent entries: alpha from the palette index of every pixel
+  const indices = new Uint8Array(width * height);
+  const pixelsPerByte = 8 / bitDepth;
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const byte = pixels[row * rowLength + Math.floor(column / pixelsPerByte)]!;
+      const shift = 8 - bitDepth * (column % pixelsPerByte + 1);
+      const index = (byte >> shift) & ((1 << bitDepth) - 1);
+      indices[row * width + column] = index;
+      alpha[row * width + column] = transparency![index] ?? 255;
+    }
+  }
+  const maskRef = addStream(doc, `${imageDictionary(1, 8, '/DeviceGray')} /Filter /FlateDecode`, deflateSync(alpha));
+  const ref = addStream(doc, `${imageDictionary(1, 8, colorSpace)} /SMask ${maskRef} 0 R /Filter /FlateDecode`, deflateSync(indices));
+  return { ref, width, height };
+}
+
+/**
+ * Embeds a JPEG or PNG image.
+ * @param data The image file.
+ * @returns The image, or null for unsupported formats (GIF, WebP, ...).
+ */
+export function embedImage(doc: PdfDocument, data: Uint8Array): PdfImage | null {
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return embedJpeg(doc, data);
+  }
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return embedPng(doc, data);
+  }
+  return null;
+}
@@ -0,0 +1,406 @@
+import { formatMatrix, formatNumber, multiplyMatrix, type Matrix } from './pdfWriter';
+
+/**
+ * Converts SVG graphics to PDF drawing operators, so they stay vector graphics in the export.
+ * Supports the basic shapes, paths, groups, transforms and fill/stroke colors.
+ * Gradients, patterns, text, clipping and filters are not supported (such elements are skipped or drawn flat).
+ */
+
+export interface SvgDrawing {
+  operators: string; // PDF content stream operators in SVG user units (y pointing down)
+  viewBox: [number, number, number, number];
+}
+
+interface SvgStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fillRule: string;
+  transform: Matrix;
+  hidden: boolean; // Inside <defs>, <clipPath> etc., which are not drawn directly
+}
+
+type Attributes = Record<string, string>;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const NON_RENDERED_ELEMENTS = ['defs', 'clippath', 'mask', 'symbol', 'marker', 'pattern', 'lineargradient', 'radialgradient', 'style', 'title', 'desc', 'metadata', 'text'];
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  yellow: [255, 255, 0], orange: [255, 165, 0], purple: [128, 0, 128], gray: [128, 128, 128], grey: [128, 128, 128],
+  silver: [192, 192, 192], maroon: [128, 0, 0], navy: [0, 0, 128], teal: [0, 128, 128], brown: [165, 42, 42],
+};
+
+function parseAttributes(source: string): Attributes {
+  const attributes: Attributes = {};
+  for (const match of source.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? '';
+  }
+  // Inline styles override presentation attributes
+  for (const declaration of (attributes.style ?? '').split(';')) {
+    const [property, value] = declaration.split(':').map(part => part.trim());
+    if (property && value) attributes[property.toLowerCase()] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Parses a color to PDF color components (0-1).
+ * @returns The components, or null for 'none', transparent and unsupported paints (e.g. gradients).
+ */
+export function parseColor(value: string): [number, number, number] | null {
+  const color = value.trim().toLowerCase();
+  let rgb: [number, number, number] | undefined;
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1]!.length === 3 ? hex[1]!.replace(/./g, digit => digit + digit) : hex[1]!;
+    rgb = [0, 2, 4].map(index => parseInt(digits.slice(index, index + 2), 16)) as [number, number, number];
+  } else if (color.startsWith('rgb')) {
+    const channels = color.match(/[\d.]+%?/g)?.slice(0, 3).map(channel => channel.endsWith('%') ? parseFloat(channel) * 2.55 : parseFloat(channel));
+    if (channels?.length === 3) rgb = channels as [number, number, number];
+  } else if (color === 'currentcolor') {
+    rgb = [0, 0, 0];
+  } else {
+    rgb = NAMED_COLORS[color];
+  }
+  return rgb ? rgb.map(channel => channel / 255) as [number, number, number] : null;
+}
+
+function parseTransform(value: string): Matrix {
+  let matrix = IDENTITY;
+  for (const match of value.matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/gi)) {
+    const args = (match[2]!.match(/[-+]?(?:\d*\.\d+|\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    const [a = 0, b = 0, c = 0] = args;
+    let step: Matrix = IDENTITY;
+    switch (match[1]!.toLowerCase()) {
+      case 'matrix':
+        if (args.length === 6) step = args as Matrix;
+        break;
+      case 'translate':
+        step = [1, 0, 0, 1, a, b];
+        break;
+      case 'scale':
+        step = [a, 0, 0, args.length > 1 ? b : a, 0, 0];
+        break;
+      case 'rotate': {
+        const radians = a * Math.PI / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        step = [cos, sin, -sin, cos, 0, 0];
+        if (args.length === 3) {
+          step = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, -b, -c], step), [1, 0, 0, 1, b, c]);
+        }
+        break;
+      }
+      case 'skewx':
+        step = [1, 0, Math.tan(a * Math.PI / 180), 1, 0, 0];
+        break;
+      case 'skewy':
+        step = [1, Math.tan(a * Math.PI / 180), 0, 1, 0, 0];
+        break;
+    }
+    // Transforms in the list are applied right to left
+    matrix = multiplyMatrix(step, matrix);
+  }
+  return matrix;
+}
+
+/**
+ * Approximates an SVG elliptical arc with cubic Bézier curves.
+ * Follows the endpoint to center conversion from the SVG specification (appendix B.2.4).
+ */
+function arcToCurves(x1: number, y1: number, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, x2: number, y2: number): number[][] {
+  if (rx === 0 || ry === 0) return [[x1, y1, x2, y2, x2, y2]];
+  const phi = angle * Math.PI / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = factor * rx * y1p / ry;
+  const cyp = -factor * ry * x1p / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let sweepAngle = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+  // One curve per quarter circle at most
+  const segments = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2)));
+  const delta = sweepAngle / segments;
+  const handle = 4 / 3 * Math.tan(delta / 4);
+  const point = (theta: number, scale: number, offset: number): [number, number] => {
+    const px = rx * (Math.cos(theta) - offset * scale * Math.sin(theta));
+    const py = ry * (Math.sin(theta) + offset * scale * Math.cos(theta));
+    return [cx + cosPhi * px - sinPhi * py, cy + sinPhi * px + cosPhi * py];
+  };
+  const curves: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const theta1 = startAngle + i * delta;
+    const theta2 = theta1 + delta;
+    curves.push([...point(theta1, handle, 1), ...point(theta2, handle, -1), ...point(theta2, 0, 0)]);
+  }
+  return curves;
+}
+
+/**
+ * Converts SVG path data to PDF path operators.
+ * @param data The `d` attribute.
+ */
+function convertPathData(data: string): string {
+  const operators: string[] = [];
+  const line = (...values: (number | string)[]) => operators.push(values.map(value => typeof value === 'number' ? formatNumber(value) : value).join(' '));
+
+  let position = 0;
+  const skipSeparators = () => {
+    while (position < data.length && /[\s,]/.test(data[position]!)) position++;
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = data.slice(position).match(/^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/);
+    if (!match) throw new Error(`Invalid path data at "${data.slice(position, position + 10)}"`);
+    position += match[0].length;
+    return parseFloat(match[0]);
+  };
+  const readFlag = (): boolean => {
+    skipSeparators();
+    return data[position++] === '1'; // Flags may be written without separators, e.g. "a5 5 0 015 5"
+  };
+  const hasNumber = () => {
+    skipSeparators();
+    return position < data.length && /[-+.\d]/.test(data[position]!);
+  };
+
+  let x = 0, y = 0; // Current point
+  let startX = 0, startY = 0; // Start of the current subpath
+  let controlX = 0, controlY = 0; // Last control point, for smooth curves
+  let command = '';
+  let previousCommand = '';
+
+  try {
+    while (position < data.length) {
+      skipSeparators();
+      if (position >= data.length) break;
+      if (/[a-zA-Z]/.test(data[position]!)) {
+        command = data[position++]!;
+      } else if (!command) {
+        break;
+      }
+      const relative = command === command.toLowerCase();
+      const offsetX = relative ? x : 0;
+      const offsetY = relative ? y : 0;
+
+      switch (command.toUpperCase()) {
+        case 'M':
+          x = readNumber() + offsetX;
+          y = readNumber() + offsetY;
+          startX = x;
+          startY = y;
+          line(x, y, 'm');
+          command = relative ? 'l' : 'L'; // Further coordinate pairs are line segments
+          break;
+        case 'L':
+          x = readNumber() + offsetX;
+          y = readNumber() + offsetY;
+          line(x, y, 'l');
+          break;
+        case 'H':
+          x = readNumber() + offsetX;
+          line(x, y, 'l');
+          break;
+        case 'V':
+          y = readNumber() + offsetY;
+          line(x, y, 'l');
+          break;
+        case 'C': {
+          const [x1, y1, x2, y2] = [readNumber() + offsetX, readNumber() + offsetY, readNumber() + offsetX, readNumber() + offsetY];
+          x = readNumber() + offsetX;
+          y = readNumber() + offsetY;
+          line(x1, y1, x2, y2, x, y, 'c');
+          controlX = x2;
+          controlY = y2;
+          break;
+        }
+        case 'S': {
+          const smooth = /[CcSs]/.test(previousCommand);
+          const x1 = smooth ? 2 * x - controlX : x;
+          const y1 = smooth ? 2 * y - controlY : y;
+          const [x2, y2] = [readNumber() + offsetX, readNumber() + offsetY];
+          x = readNumber() + offsetX;
+          y = readNumber() + offsetY;
+          line(x1, y1, x2, y2, x, y, 'c');
+          controlX = x2;
+          controlY = y2;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          let qx: number, qy: number;
+          if (command.toUpperCase() === 'Q') {
+            qx = readNumber() + offsetX;
+            qy = readNumber() + offsetY;
+          } else {
+            const smooth = /[QqTt]/.test(previousCommand);
+            qx = smooth ? 2 * x - controlX : x;
+            qy = smooth ? 2 * y - controlY : y;
+          }
+          const endX = readNumber() + offsetX;
+          const endY = readNumber() + offsetY;
+          // Quadratic curves are expressed as cubic curves
+          line(x + 2 / 3 * (qx - x), y + 2 / 3 * (qy - y), endX + 2 / 3 * (qx - endX), endY + 2 / 3 * (qy - endY), endX, endY, 'c');
+          controlX = qx;
+          controlY = qy;
+          x = endX;
+          y = endY;
+          break;
+        }
+        case 'A': {
+          const [rx, ry, angle] = [readNumber(), readNumber(), readNumber()];
+          const largeArc = readFlag();
+          const sweep = readFlag();
+          const endX = readNumber() + offsetX;
+          const endY = readNumber() + offsetY;
+          for (const curve of arcToCurves(x, y, rx, ry, angle, largeArc, sweep, endX, endY)) {
+            line(...curve, 'c');
+          }
+          x = endX;
+          y = endY;
+          break;
+        }
+        case 'Z':
+          line('h');
+          x = startX;
+          y = startY;
+          break;
+        default:
+          throw new Error(`Unknown path command "${command}"`);
+      }
+      previousCommand = command;
+      // Coordinates after a closepath need a new command
+      if (command.toUpperCase() === 'Z' && hasNumber()) command = 'L';
+    }
+  } catch (error) {
+    // Like browsers, render the path up to the error
+    console.warn(`SVG path data could not be parsed completely: ${error instanceof Error ? error.message : error}`);
+  }
+  return operators.join('\n');
+}
+
+/**
+ * Converts a basic shape or path element to PDF path operators.
+ * @returns The operators, or null for elements that are not drawn.
+ */
+function convertShape(tag: string, attributes: Attributes): string | null {
+  const number = (name: string) => parseFloat(attributes[name] ?? '0') || 0;
+  switch (tag) {
+    case 'path':
+      return attributes.d ? convertPathData(attributes.d) : null;
+    case 'rect': {
+      const [x, y, width, height] = [number('x'), number('y'), number('width'), number('height')];
+      if (width <= 0 || height <= 0) return null;
+      const rx = Math.min(number('rx') || number('ry'), width / 2);
+      const ry = Math.min(number('ry') || number('rx'), height / 2);
+      if (!rx || !ry) return `${[x, y, width, height].map(formatNumber).join(' ')} re`;
+      return convertPathData(`M${x + rx},${y} H${x + width - rx} A${rx},${ry} 0 0 1 ${x + width},${y + ry} V${y + height - ry} ` +
+        `A${rx},${ry} 0 0 1 ${x + width - rx},${y + height} H${x + rx} A${rx},${ry} 0 0 1 ${x},${y + height - ry} V${y + ry} A${rx},${ry} 0 0 1 ${x + rx},${y} Z`);
+    }
+    case 'circle':
+    case 'ellipse': {
+      const [cx, cy] = [number('cx'), number('cy')];
+      const rx = tag === 'circle' ? number('r') : number('rx');
+      const ry = tag === 'circle' ? number('r') : number('ry');
+      if (rx <= 0 || ry <= 0) return null;
+      return convertPathData(`M${cx - rx},${cy} A${rx},${ry} 0 1 0 ${cx + rx},${cy} A${rx},${ry} 0 1 0 ${cx - rx},${cy} Z`);
+    }
+    case 'line':
+      return convertPathData(`M${number('x1')},${number('y1')} L${number('x2')},${number('y2')}`);
+    case 'polyline':
+    case 'polygon':
+      if (!attributes.points) return null;
+      return convertPathData(`M${attributes.points}${tag === 'polygon' ? ' Z' : ''}`);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts an SVG document to PDF drawing operators.
+ * @param content The SVG source.
+ * @param rootPathFill If set, overrides the fill of paths directly inside the root element
+ *   (mirrors the `svg > path` rule of extra-style.css).
+ */
+export function convertSvg(content: string, rootPathFill?: string): SvgDrawing {
+  const source = content.replace(/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/gi, '');
+  const stack: SvgStyle[] = [];
+  const operators: string[] = [];
+  let viewBox: [number, number, number, number] | null = null;
+
+  for (const match of source.matchAll(/<(\/?)([a-zA-Z][\w:.-]*)((?:\s+[^\s=>\/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/g)) {
+    const [, closing, rawTag = '', attributeSource = '', selfClosing] = match;
+    const tag = rawTag.toLowerCase().replace(/^svg:/, '');
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeSource);
+    const parent = stack[stack.length - 1];
+    if (!parent && tag === 'svg') {
+      const values = (attributes.viewbox ?? '').split(/[\s,]+/).map(Number);
+      if (values.length === 4 && values.every(value => Number.isFinite(value))) {
+        viewBox = values as [number, number, number, number];
+      } else {
+        viewBox = [0, 0, parseFloat(attributes.width ?? '') || 100, parseFloat(attributes.height ?? '') || 100];
+      }
+    }
+
+    const style: SvgStyle = {
+      fill: attributes.fill ?? parent?.fill ?? 'black',
+      stroke: attributes.stroke ?? parent?.stroke ?? 'none',
+      strokeWidth: attributes['stroke-width'] !== undefined ? parseFloat(attributes['stroke-width']) || 0 : parent?.strokeWidth ?? 1,
+      fillRule: attributes['fill-rule'] ?? parent?.fillRule ?? 'nonzero',
+      // Nested <svg> elements are treated like groups
+      transform: attributes.transform && tag !== 'svg' ? multiplyMatrix(parseTransform(attributes.transform), parent?.transform ?? IDENTITY) : parent?.transform ?? IDENTITY,
+      hidden: (parent?.hidden ?? false) || NON_RENDERED_ELEMENTS.includes(tag) || attributes.display === 'none',
+    };
+    if (tag === 'path' && rootPathFill && stack.length === 1) {
+      style.fill = rootPathFill;
+    }
+
+    const path = style.hidden ? null : convertShape(tag, attributes);
+    if (path) {
+      const fill = tag === 'line' ? null : parseColor(style.fill); // Lines have no area to fill
+      const stroke = style.strokeWidth > 0 ? parseColor(style.stroke) : null;
+      if (fill || stroke) {
+        const evenOdd = style.fillRule === 'evenodd' ? '*' : '';
+        const paint = fill && stroke ? `B${evenOdd}` : fill ? `f${evenOdd}` : 'S';
+        operators.push('q');
+        if (style.transform !== IDENTITY) operators.push(`${formatMatrix(style.transform)} cm`);
+        if (fill) operators.push(`${fill.map(formatNumber).join(' ')} rg`);
+        if (stroke) operators.push(`${stroke.map(formatNumber).join(' ')} RG ${formatNumber(style.strokeWidth)} w`);
+        operators.push(path, paint, 'Q');
+      }
+    }
+
+    if (!selfClosing) {
+      stack.push(style);
+    }
+  }
+
+  if (!viewBox) throw new Error('No <svg> element found.');
+  return { operators: operators.join('\n'), viewBox };
+}
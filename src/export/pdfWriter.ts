@@ -0,0 +1,146 @@
+/**
+ * Minimal PDF object writer used by the server-side export.
+ * Output is byte-stable: objects are written in the order they were reserved and
+ * no timestamps or random IDs are included, so the same layout always yields the same file.
+ */
+
+export interface PdfDocument {
+  objects: (Uint8Array | undefined)[]; // Serialized objects, index = object number - 1
+}
+
+// A transformation matrix [a b c d e f] as used by the PDF `cm` operator
+export type Matrix = [number, number, number, number, number, number];
+
+const encoder = new TextEncoder();
+
+export function createPdfDocument(): PdfDocument {
+  return { objects: [] };
+}
+
+/**
+ * Reserves an object number, for objects that reference each other (e.g. pages and their parent).
+ * @returns The object number.
+ */
+export function reserveObject(doc: PdfDocument): number {
+  doc.objects.push(undefined);
+  return doc.objects.length;
+}
+
+/**
+ * Sets the content of a reserved object.
+ * @param ref The object number from reserveObject().
+ * @param content The object body, e.g. a dictionary `<< /Type /Page ... >>`.
+ */
+export function setObject(doc: PdfDocument, ref: number, content: string | Uint8Array): void {
+  doc.objects[ref - 1] = typeof content === 'string' ? encoder.encode(content) : content;
+}
+
+/**
+ * Adds an object and returns its number.
+ * @param content The object body.
+ */
+export function addObject(doc: PdfDocument, content: string): number {
+  const ref = reserveObject(doc);
+  setObject(doc, ref, content);
+  return ref;
+}
+
+/**
+ * Adds a stream object. The /Length entry is added automatically.
+ * @param dictionary Additional dictionary entries, e.g. `/Filter /FlateDecode`.
+ * @param data The stream data.
+ * @returns The object number.
+ */
+export function addStream(doc: PdfDocument, dictionary: string, data: string | Uint8Array): number {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  const head = encoder.encode(`<< ${dictionary ? `${dictionary} ` : ''}/Length ${bytes.length} >>\nstream\n`);
+  const tail = encoder.encode('\nendstream');
+  return addBinaryObject(doc, [head, bytes, tail]);
+}
+
+function addBinaryObject(doc: PdfDocument, parts: Uint8Array[]): number {
+  const ref = reserveObject(doc);
+  setObject(doc, ref, concatBytes(parts));
+  return ref;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Formats a number for PDF content (at most 3 decimals, no exponent, no "-0").
+ */
+export function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) || !Number.isFinite(rounded) ? '0' : String(rounded);
+}
+
+export function formatMatrix(matrix: Matrix): string {
+  return matrix.map(formatNumber).join(' ');
+}
+
+/**
+ * Concatenates two transformations: the result applies `first`, then `then`.
+ */
+export function multiplyMatrix(first: Matrix, then: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = then;
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+}
+
+/**
+ * Formats a PDF name, escaping characters that are not allowed in names.
+ */
+export function formatName(name: string): string {
+  return '/' + name.replace(/[^!-~]|[#()<>\[\]{}\/%]/g, char => `#${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+}
+
+/**
+ * Serializes the document with a cross-reference table.
+ * @param rootRef The object number of the document catalog.
+ * @returns The PDF file contents.
+ */
+export function serializePdf(doc: PdfDocument, rootRef: number): Uint8Array {
+  // The binary comment marks the file as binary for transfer programs
+  const header = concatBytes([encoder.encode('%PDF-1.4\n%'), new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3]), encoder.encode('\n')]);
+  const parts: Uint8Array[] = [header];
+  let offset = header.length;
+  const offsets: number[] = [];
+
+  doc.objects.forEach((content, index) => {
+    if (!content) throw new Error(`PDF object ${index + 1} was reserved but never set.`);
+    offsets.push(offset);
+    const head = encoder.encode(`${index + 1} 0 obj\n`);
+    const tail = encoder.encode('\nendobj\n');
+    parts.push(head, content, tail);
+    offset += head.length + content.length + tail.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${doc.objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(objectOffset => `${String(objectOffset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${doc.objects.length + 1} /Root ${rootRef} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(encoder.encode(xref + '\n'));
+  return concatBytes(parts);
+}
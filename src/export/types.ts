@@ -0,0 +1,12 @@
+import type { DocumentSettings } from '../pageSettings';
+import type { SavedPositionData } from '../interactions/types';
+
+// The contents of settings.json as read by the server
+export interface LayoutSettings {
+  document?: DocumentSettings;
+  pages?: { id: string }[];
+  objects?: SavedPositionData[];
+  snapDistance?: number;
+  nudgeStep?: number; // Step of shift + arrow keys in mm
+  revision?: number; // Incremented on every write, to detect saves based on an outdated state
+}
@@ -0,0 +1,80 @@
+import { watch, type FSWatcher } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { USER_DIR, SETTINGS_FILENAME, SETTINGS_TEMP_FILENAME, isValidProjectId } from './projects';
+
+/**
+ * Watches the user directory for changes of item source files (e.g. a song edited in a text editor)
+ * and reports them per file, so the clients can re-parse just the affected items.
+ */
+
+export type FileChangeType = 'changed' | 'added' | 'removed';
+
+export interface FileChangeEvent {
+  type: 'file';
+  change: FileChangeType;
+  project: string;
+  filepath: string; // As stored in the items, e.g. /user/songbook/song.txt
+}
+
+// Editors write a file in several steps (truncate, write, rename), report them as one change
+const DEBOUNCE_MS = 100;
+
+// Written by the app itself, not an item source
+const IGNORED_FILES = [SETTINGS_FILENAME, SETTINGS_TEMP_FILENAME];
+
+// Files in hidden directories (snapshots, trash) aren't item sources either
+function isIgnored(relativePath: string): boolean {
+  return IGNORED_FILES.includes(path.basename(relativePath)) || relativePath.split(path.sep).some(part => part.startsWith('.'));
+}
+
+/**
+ * Lists the files in a directory and its subdirectories, relative to the directory.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)));
+}
+
+/**
+ * Starts watching the user directory.
+ * @param onChange Called once per changed file, after the file has settled.
+ * @returns The watcher (close it to stop watching).
+ */
+export async function watchUserDir(onChange: (event: FileChangeEvent) => void): Promise<FSWatcher> {
+  // Known files tell an added file (or one replaced by an editor's atomic save) from a changed one
+  const knownFiles = new Set((await listFiles(USER_DIR)).filter(file => !isIgnored(file)));
+  const pendingChecks = new Map<string, Timer>();
+
+  const checkFile = async (relativePath: string) => {
+    pendingChecks.delete(relativePath);
+    let exists: boolean;
+    try {
+      exists = (await stat(path.join(USER_DIR, relativePath))).isFile();
+    } catch {
+      exists = false;
+    }
+
+    let change: FileChangeType;
+    if (exists) {
+      change = knownFiles.has(relativePath) ? 'changed' : 'added';
+      knownFiles.add(relativePath);
+    } else {
+      if (!knownFiles.delete(relativePath)) return; // A temporary file that came and went
+      change = 'removed';
+    }
+
+    // Item files live in user/<project>/
+    const [project, ...rest] = relativePath.split(path.sep);
+    if (!project || rest.length === 0 || !isValidProjectId(project)) return;
+    onChange({ type: 'file', change, project, filepath: `/${USER_DIR}/${[project, ...rest].join('/')}` });
+  };
+
+  return watch(USER_DIR, { recursive: true }, (_eventType, filename) => {
+    if (!filename || isIgnored(filename)) return;
+    clearTimeout(pendingChecks.get(filename));
+    pendingChecks.set(filename, setTimeout(() => checkFile(filename), DEBOUNCE_MS));
+  });
+}
@@ -0,0 +1,320 @@
+import type { ItemPosition, SavedPositionData } from './types.js';
+import { itemPositions, selectedElementIds, getItemId, updateItemPosition, describeItems } from './state.js';
+import { applyPositions } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { selectItems } from './selection.js';
+import { getPageIndex } from './pages.js';
+import { getCurrentProject } from './projects.js';
+import { uploadFile, addNewItemToPage } from './fileDrop.js';
+import { withGroupMembers, remapCopiedGroups } from './groups.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Duplicating, copying and pasting items. Copies share the source file of the original item,
+ * only the item data (position, transforms, render options) is cloned. Copies of groups include their items.
+ * Copied items are also put on the system clipboard (as JSON), so they can be pasted in another
+ * tab or project; there the source files are copied into the project. Pasting other text or an
+ * image from the clipboard adds it as a new file.
+ * - Ctrl/Cmd + C: Copy the selection
+ * - Ctrl/Cmd + V: Paste at the mouse position
+ * - Ctrl/Cmd + D: Duplicate the selection
+ */
+
+const DUPLICATE_OFFSET_PX = 10; // Duplicates are placed slightly offset, so they are visible
+const CLIPBOARD_FORMAT = 'mini-layout-items'; // Tells copied items from other text on the clipboard
+
+// The items on the system clipboard
+interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  project: string; // The project the items were copied from
+  items: SavedPositionData[]; // With their IDs, groups before their items
+}
+
+// Where pasted items are placed: a page and the client coordinates on it
+interface PasteTarget {
+  page: HTMLElement;
+  clientX: number;
+  clientY: number;
+}
+
+let copiedItems: SavedPositionData[] = [];
+let pointerPosition: { x: number; y: number } | null = null;
+
+/**
+ * Returns the copied items that aren't in a copied group (those are placed with their group).
+ */
+function getTopLevelItems(positions: SavedPositionData[]): SavedPositionData[] {
+  const ids = new Set(positions.map(pos => pos.id));
+  return positions.filter(pos => !pos.groupId || !ids.has(pos.groupId));
+}
+
+/**
+ * Copies item data with the IDs of the items, including the items of groups.
+ */
+function cloneItems(ids: string[]): SavedPositionData[] {
+  return withGroupMembers(ids).map(id => JSON.parse(JSON.stringify({ ...itemPositions[id]!, id })));
+}
+
+/**
+ * Adds copies of items to the state with new IDs.
+ * @param positions The item data to copy (with IDs, groups before their items).
+ * @param place Returns the properties of a copy that differ from the original (e.g. its position).
+ *   Items of copied groups keep their position within the group.
+ * @returns The IDs of the copies, without the items of groups.
+ */
+function addCopies(positions: SavedPositionData[], place: (pos: ItemPosition) => Partial<ItemPosition>): string[] {
+  const topLevelItems = getTopLevelItems(positions);
+  const copyIds = new Map<string, string>();
+  const topLevelCopyIds: string[] = [];
+  for (const { id, ...pos } of positions) {
+    const copyId = getItemId(pos.filepath?.split('/').pop() || (pos.isGroup ? 'group' : 'item'));
+    const isTopLevel = topLevelItems.some(item => item.id === id);
+    updateItemPosition(copyId, isTopLevel ? { ...pos, groupId: undefined, ...place(pos) } : pos);
+    if (id) copyIds.set(id, copyId);
+    if (isTopLevel) topLevelCopyIds.push(copyId);
+  }
+  remapCopiedGroups(copyIds);
+  return topLevelCopyIds;
+}
+
+/**
+ * Renders new copies, selects them and records them in the history.
+ */
+async function commitCopies(ids: string[], label: string): Promise<void> {
+  await applyPositions();
+  selectItems(ids);
+  updateAndSavePositions(label);
+  showToast(`${label}.`, 1500);
+}
+
+/**
+ * Duplicates items on their pages, slightly offset.
+ * @param ids The IDs of the items (usually the selection).
+ */
+export async function duplicateItems(ids: string[]): Promise<void> {
+  const originalIds = ids.filter(id => itemPositions[id]);
+  if (originalIds.length === 0) return;
+
+  const copyIds = addCopies(cloneItems(originalIds), pos => ({
+    left: `${parseFloat(pos.left) + DUPLICATE_OFFSET_PX}px`,
+    top: `${parseFloat(pos.top) + DUPLICATE_OFFSET_PX}px`,
+    locked: undefined, // A copy is meant to be moved
+  }));
+  await commitCopies(copyIds, `Duplicated ${describeItems(originalIds)}`);
+}
+
+/**
+ * Remembers items for pasting.
+ * @returns The clipboard text for the items, or null if none of the items exist.
+ */
+function rememberItems(ids: string[]): string | null {
+  const originalIds = ids.filter(id => itemPositions[id]);
+  if (originalIds.length === 0) return null;
+  copiedItems = cloneItems(originalIds);
+  const payload: ClipboardPayload = { format: CLIPBOARD_FORMAT, project: getCurrentProject(), items: copiedItems };
+  showToast(`Copied ${describeItems(originalIds)}.`, 1500);
+  return JSON.stringify(payload);
+}
+
+/**
+ * Copies items, also to the system clipboard if the browser allows it.
+ * @param ids The IDs of the items (usually the selection).
+ */
+export async function copyItems(ids: string[]): Promise<void> {
+  const text = rememberItems(ids);
+  if (!text) return;
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch (error) {
+    console.warn('Could not write to the clipboard, the items can only be pasted in this tab:', error);
+  }
+}
+
+/**
+ * Reads copied items from clipboard text.
+ * @returns The payload, or null if the text isn't copied items.
+ */
+function parsePayload(text: string): ClipboardPayload | null {
+  if (!text.includes(CLIPBOARD_FORMAT)) return null;
+  try {
+    const payload = JSON.parse(text);
+    if (payload?.format !== CLIPBOARD_FORMAT || typeof payload.project !== 'string' || !Array.isArray(payload.items)) return null;
+    const valid = payload.items.every((pos: ItemPosition) => typeof pos?.left === 'string' && typeof pos.top === 'string');
+    return valid && payload.items.length > 0 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copies the source files of items from another project into the open project.
+ * @returns The items with the paths of the copied files.
+ */
+async function importItemFiles(items: SavedPositionData[], sourceProject: string): Promise<SavedPositionData[]> {
+  if (sourceProject === getCurrentProject()) return items;
+
+  const importedPaths = new Map<string, string>();
+  for (const item of items) {
+    if (!item.filepath || importedPaths.has(item.filepath)) continue;
+    const response = await fetch(item.filepath);
+    if (!response.ok) throw new Error(`Failed to fetch ${item.filepath}: ${response.statusText}`);
+    const filename = item.filepath.split('/').pop()!;
+    // The project may have another file with the same name, which must not be replaced
+    importedPaths.set(item.filepath, await uploadFile(new File([await response.blob()], filename), true));
+  }
+  return items.map(item => item.filepath ? { ...item, filepath: importedPaths.get(item.filepath) } : item);
+}
+
+/**
+ * Places items on a page, keeping their arrangement.
+ * @param items The copied item data.
+ * @param sourceProject The project the items were copied from.
+ * @param pageIndex The page to paste on.
+ * @param left The position (px within the page) of the top left corner of the pasted items.
+ * @param top
+ */
+async function placeItems(items: SavedPositionData[], sourceProject: string, pageIndex: number, left: number, top: number): Promise<void> {
+  let importedItems: SavedPositionData[];
+  try {
+    importedItems = await importItemFiles(items, sourceProject);
+  } catch (error) {
+    console.error('Error copying the files of pasted items:', error);
+    showToast(`Error pasting: ${error instanceof Error ? error.message : error}`, 4000);
+    return;
+  }
+
+  const topLevelItems = getTopLevelItems(importedItems);
+  const minLeft = Math.min(...topLevelItems.map(pos => parseFloat(pos.left)));
+  const minTop = Math.min(...topLevelItems.map(pos => parseFloat(pos.top)));
+  const copyIds = addCopies(importedItems, pos => ({
+    left: `${parseFloat(pos.left) - minLeft + left}px`,
+    top: `${parseFloat(pos.top) - minTop + top}px`,
+    pageIndex,
+  }));
+  await commitCopies(copyIds, `Pasted ${describeItems(copyIds)}`);
+}
+
+/**
+ * Pastes the copied items onto a page: those on the system clipboard (e.g. copied in another tab)
+ * if the browser allows reading it, otherwise those copied in this tab.
+ * @param pageIndex The page to paste on.
+ * @param left The position (px within the page) of the top left corner of the pasted items.
+ * @param top
+ */
+export async function pasteItems(pageIndex: number, left: number, top: number): Promise<void> {
+  let payload: ClipboardPayload | null = null;
+  try {
+    payload = parsePayload(await navigator.clipboard.readText());
+  } catch (error) {
+    console.warn('Could not read the clipboard, pasting the items copied in this tab:', error);
+  }
+  if (payload) {
+    await placeItems(payload.items, payload.project, pageIndex, left, top);
+  } else if (copiedItems.length > 0) {
+    await placeItems(copiedItems, getCurrentProject(), pageIndex, left, top);
+  } else {
+    showToast('Nothing copied.', 1500);
+  }
+}
+
+/**
+ * Returns where pasted items go: at the mouse if it is over a page, otherwise at the top left of the first page in view.
+ */
+function getPasteTarget(): PasteTarget | null {
+  if (pointerPosition) {
+    const page = document.elementFromPoint(pointerPosition.x, pointerPosition.y)?.closest<HTMLElement>('.page-container');
+    if (page) return { page, clientX: pointerPosition.x, clientY: pointerPosition.y };
+  }
+  const containers = Array.from(document.querySelectorAll<HTMLElement>('.page-container'));
+  const page = containers.find(container => container.getBoundingClientRect().bottom > 0) ?? containers[0];
+  if (!page) return null;
+  const rect = page.getBoundingClientRect();
+  return { page, clientX: rect.left + DUPLICATE_OFFSET_PX, clientY: Math.max(rect.top, 0) + DUPLICATE_OFFSET_PX };
+}
+
+/**
+ * Uploads pasted text or an image as a new file and adds it at the paste target.
+ */
+async function pasteFile(file: File, target: PasteTarget): Promise<void> {
+  try {
+    const filePath = await uploadFile(file);
+    await addNewItemToPage(file.name, filePath, target.clientX, target.clientY);
+  } catch (error) {
+    console.error('Error pasting file:', error);
+    showToast(`Error pasting ${file.name}`, 3000);
+  }
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+}
+
+/**
+ * Puts the selected items on the clipboard (unless text is selected, which is copied as usual).
+ * @param event The ClipboardEvent.
+ */
+function handleCopy(event: ClipboardEvent): void {
+  if (isEditable(event.target) || selectedElementIds.size === 0) return;
+  if (!document.getSelection()?.isCollapsed) return;
+
+  const text = rememberItems(Array.from(selectedElementIds));
+  if (!text || !event.clipboardData) return;
+  event.clipboardData.setData('text/plain', text);
+  event.preventDefault();
+}
+
+/**
+ * Pastes copied items, an image or text from the clipboard at the mouse position.
+ * @param event The ClipboardEvent.
+ */
+function handlePaste(event: ClipboardEvent): void {
+  if (isEditable(event.target) || !event.clipboardData) return;
+  const target = getPasteTarget();
+  if (!target) return;
+
+  // The clipboard data is only available during the event
+  const text = event.clipboardData.getData('text/plain');
+  const image = Array.from(event.clipboardData.files).find(file => file.type.startsWith('image/'));
+  const payload = parsePayload(text);
+  const pageRect = target.page.getBoundingClientRect();
+  const filename = `pasted-${Date.now()}`; // Pasted images are all called e.g. image.png
+
+  if (payload) {
+    placeItems(payload.items, payload.project, getPageIndex(target.page), target.clientX - pageRect.left, target.clientY - pageRect.top);
+  } else if (image) {
+    pasteFile(new File([image], `${filename}.${image.type.split('/')[1] || 'png'}`, { type: image.type }), target);
+  } else if (text.trim()) {
+    pasteFile(new File([text], `${filename}.txt`, { type: 'text/plain' }), target);
+  } else {
+    return;
+  }
+  event.preventDefault();
+}
+
+/**
+ * Handles Ctrl/Cmd + D: duplicates the selection (instead of bookmarking the page).
+ * @param event The KeyboardEvent.
+ */
+function handleDuplicateKey(event: KeyboardEvent): void {
+  if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey || event.key.toLowerCase() !== 'd') return;
+  if (isEditable(event.target) || selectedElementIds.size === 0) return;
+  event.preventDefault();
+  duplicateItems(Array.from(selectedElementIds));
+}
+
+/**
+ * Initializes the clipboard listeners (copy, paste, duplicate) and tracks the mouse position for pasting.
+ */
+export function initializeClipboardListeners(): void {
+  document.addEventListener('copy', handleCopy);
+  document.addEventListener('paste', handlePaste);
+  document.addEventListener('keydown', handleDuplicateKey);
+  document.addEventListener('mousemove', event => {
+    pointerPosition = { x: event.clientX, y: event.clientY };
+  });
+  document.addEventListener('mouseleave', () => {
+    pointerPosition = null;
+  });
+  console.log("Clipboard listeners initialized.");
+}
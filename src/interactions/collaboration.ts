@@ -0,0 +1,198 @@
+import type { ChangeVersion, CollaborationMessage, RemotePeer } from './types.js';
+import { itemPositions, pages, documentSettings, setDocumentSettings, changedItemIds, selectedElementIds, applyRemoteItemChange, applyRemotePages, settingsRevision, setSettingsRevision } from './state.js';
+import { applyPositions, applyDocumentSettings } from './initialization.js';
+import { loadPositions, toSavedPositionData } from './persistence.js';
+import { updateSelectionClasses } from './selection.js';
+import { onServerMessage, onDisconnect, sendMessage } from './connection.js';
+import { isNewerVersion } from './versions.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Editing a project together with other clients: local item changes are sent to the server
+ * item by item (instead of posting the whole state), changes of others are applied live and
+ * their selections are outlined in their colour. Concurrent edits of an item are resolved by
+ * version, the newest change wins (see src/collaboration.ts on the server).
+ */
+
+let clientId = '';
+let clock = 0; // Lamport clock, above every version seen
+let joined = false; // The server welcomed us on the current connection
+const itemVersions = new Map<string, ChangeVersion>(); // Version of the last applied change per item
+let pagesVersion: ChangeVersion | undefined;
+let sentPages = ''; // The page list as last sent or received (JSON)
+let documentVersion: ChangeVersion | undefined;
+let sentDocument = ''; // The page setup as last sent or received (JSON)
+let sentSelection = ''; // The selection as last sent (JSON)
+const peers = new Map<string, RemotePeer>();
+let pendingApply: Promise<void> = Promise.resolve();
+
+function nextVersion(): ChangeVersion {
+  return { clock: ++clock, clientId };
+}
+
+/**
+ * Sends the items changed since the last call (and the page list and page setup, if they changed) to the server.
+ * @returns False if not connected, the caller has to save the whole state instead.
+ */
+export function sendLocalChanges(): boolean {
+  if (!joined) return false;
+
+  for (const id of changedItemIds) {
+    const position = itemPositions[id];
+    const version = nextVersion();
+    itemVersions.set(id, version);
+    sendMessage({ type: 'item', id, position: position ? toSavedPositionData(id, position) : null, version });
+  }
+  changedItemIds.clear();
+
+  const pagesJson = JSON.stringify(pages);
+  if (pagesJson !== sentPages) {
+    pagesVersion = nextVersion();
+    sentPages = pagesJson;
+    sendMessage({ type: 'pages', pages, version: pagesVersion });
+  }
+
+  const documentJson = JSON.stringify(documentSettings);
+  if (documentJson !== sentDocument) {
+    documentVersion = nextVersion();
+    sentDocument = documentJson;
+    sendMessage({ type: 'document', document: documentSettings, version: documentVersion });
+  }
+  return true;
+}
+
+/**
+ * Sends the local selection to the other clients (if it changed).
+ */
+export function sendSelection(): void {
+  const ids = Array.from(selectedElementIds);
+  const selectionJson = JSON.stringify(ids);
+  if (!joined || selectionJson === sentSelection) return;
+  sentSelection = selectionJson;
+  sendMessage({ type: 'selection', ids });
+}
+
+/**
+ * Outlines the items selected by other clients in their colour.
+ */
+function renderRemoteSelections(): void {
+  const peerList = Array.from(peers.values());
+  document.querySelectorAll<HTMLElement>('.draggable-item').forEach(element => {
+    const peer = peerList.find(peer => peer.ids.includes(element.id));
+    element.classList.toggle('remote-selected', peer !== undefined);
+    if (peer) {
+      element.style.setProperty('--remote-selection-color', peer.color);
+    } else {
+      element.style.removeProperty('--remote-selection-color');
+    }
+  });
+}
+
+/**
+ * Re-renders the items after remote changes. Runs one after another, as applyPositions()
+ * creates missing elements asynchronously.
+ */
+function scheduleApplyPositions(): void {
+  pendingApply = pendingApply.then(async () => {
+    await applyPositions();
+    updateSelectionClasses();
+    renderRemoteSelections();
+  }).catch(error => console.error("Error applying remote changes:", error));
+}
+
+function handleWelcome(message: Extract<CollaborationMessage, { type: 'welcome' }>): void {
+  const reconnected = clientId !== '';
+  clientId = message.clientId;
+  clock = Math.max(clock, message.clock);
+  // Versions of a previous connection are unknown to the server now
+  itemVersions.clear();
+  pagesVersion = undefined;
+  sentPages = JSON.stringify(pages);
+  documentVersion = undefined;
+  sentDocument = JSON.stringify(documentSettings);
+  sentSelection = '';
+  peers.clear();
+  message.peers.forEach(peer => peers.set(peer.clientId, peer));
+  joined = true;
+  console.log(`Joined project as ${clientId} with ${peers.size} other client(s).`);
+
+  if (peers.size > 0) {
+    showToast(`Editing together with ${peers.size} other ${peers.size === 1 ? 'client' : 'clients'}.`, 2500);
+  }
+  if (reconnected) {
+    // Changes of others were missed while disconnected
+    loadPositions().then(renderRemoteSelections);
+  } else {
+    renderRemoteSelections();
+  }
+  sendSelection();
+}
+
+function handleItemMessage(message: Extract<CollaborationMessage, { type: 'item' }>): void {
+  clock = Math.max(clock, message.version.clock);
+  // A local change that wasn't sent yet will get a newer version and win
+  if (changedItemIds.has(message.id)) return;
+  if (!isNewerVersion(message.version, itemVersions.get(message.id))) return;
+
+  itemVersions.set(message.id, message.version);
+  applyRemoteItemChange(message.id, message.position);
+  if (!message.position) selectedElementIds.delete(message.id);
+  scheduleApplyPositions();
+}
+
+function handlePagesMessage(message: Extract<CollaborationMessage, { type: 'pages' }>): void {
+  clock = Math.max(clock, message.version.clock);
+  if (!isNewerVersion(message.version, pagesVersion)) return;
+
+  pagesVersion = message.version;
+  sentPages = JSON.stringify(message.pages);
+  applyRemotePages(message.pages);
+  scheduleApplyPositions();
+}
+
+function handleDocumentMessage(message: Extract<CollaborationMessage, { type: 'document' }>): void {
+  clock = Math.max(clock, message.version.clock);
+  if (!isNewerVersion(message.version, documentVersion)) return;
+
+  documentVersion = message.version;
+  sentDocument = JSON.stringify(message.document);
+  setDocumentSettings(message.document);
+  applyDocumentSettings();
+}
+
+function handleSelectionMessage(message: Extract<CollaborationMessage, { type: 'selection' }>): void {
+  if (!message.clientId || !message.color) return;
+  peers.set(message.clientId, { clientId: message.clientId, color: message.color, ids: message.ids });
+  renderRemoteSelections();
+}
+
+function handleLeaveMessage(message: Extract<CollaborationMessage, { type: 'leave' }>): void {
+  peers.delete(message.clientId);
+  renderRemoteSelections();
+}
+
+/**
+ * Initializes editing together with other clients of the project.
+ */
+export function initializeCollaboration(): void {
+  onServerMessage('welcome', handleWelcome);
+  onServerMessage('item', handleItemMessage);
+  onServerMessage('pages', handlePagesMessage);
+  onServerMessage('document', handleDocumentMessage);
+  onServerMessage('selection', handleSelectionMessage);
+  onServerMessage('leave', handleLeaveMessage);
+  // The state includes all changes stored by the server, saves after a disconnect are based on it
+  onServerMessage('revision', (message: Extract<CollaborationMessage, { type: 'revision' }>) => setSettingsRevision(message.revision));
+  onServerMessage('reload', (message: Extract<CollaborationMessage, { type: 'reload' }>) => {
+    clock = Math.max(clock, message.clock); // Later changes are newer than the restore
+    if (message.revision === settingsRevision) return; // Already loaded (e.g. by the client that restored a snapshot)
+    showToast('A saved version of the layout was restored.', 2500);
+    loadPositions().then(renderRemoteSelections);
+  });
+  onDisconnect(() => {
+    joined = false;
+    peers.clear();
+    renderRemoteSelections();
+  });
+  console.log("Collaboration initialized.");
+}
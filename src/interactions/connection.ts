@@ -0,0 +1,77 @@
+import type { CollaborationMessage } from './types.js';
+import { getCurrentProject } from './projects.js';
+
+/**
+ * The websocket connection to the server (one per page, for the open project).
+ * Modules register handlers for the message types they are interested in.
+ * Messages are JSON objects with a `type`, e.g. file changes (liveReload.ts) or edits of other clients (collaboration.ts).
+ */
+
+type MessageHandler = (message: any) => void;
+
+const RECONNECT_DELAY_MS = 2000;
+
+const messageHandlers = new Map<string, MessageHandler[]>();
+const disconnectHandlers: (() => void)[] = [];
+let socket: WebSocket | null = null;
+
+/**
+ * Registers a handler for a message type sent by the server.
+ */
+export function onServerMessage(type: string, handler: MessageHandler): void {
+  messageHandlers.set(type, [...(messageHandlers.get(type) ?? []), handler]);
+}
+
+/**
+ * Registers a handler called when the connection drops.
+ */
+export function onDisconnect(handler: () => void): void {
+  disconnectHandlers.push(handler);
+}
+
+export function isConnected(): boolean {
+  return socket?.readyState === WebSocket.OPEN;
+}
+
+/**
+ * Sends a message to the server.
+ * @returns False if there is no connection (the message is dropped).
+ */
+export function sendMessage(message: CollaborationMessage): boolean {
+  if (!socket || !isConnected()) return false;
+  socket.send(JSON.stringify(message));
+  return true;
+}
+
+/**
+ * Connects to the server's websocket for the open project and reconnects when the connection
+ * drops (e.g. while the server restarts).
+ */
+function connect(): void {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  socket = new WebSocket(`${protocol}//${window.location.host}/ws?project=${encodeURIComponent(getCurrentProject())}`);
+
+  socket.addEventListener('message', (event) => {
+    let message: { type?: string };
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      console.warn("Ignoring unknown websocket message:", event.data);
+      return;
+    }
+    messageHandlers.get(message.type ?? '')?.forEach(handler => handler(message));
+  });
+  socket.addEventListener('close', () => {
+    console.log(`Server connection closed, reconnecting in ${RECONNECT_DELAY_MS}ms.`);
+    disconnectHandlers.forEach(handler => handler());
+    setTimeout(connect, RECONNECT_DELAY_MS);
+  });
+}
+
+/**
+ * Opens the connection to the server. Call after the modules registered their message handlers.
+ */
+export function initializeConnection(): void {
+  connect();
+  console.log("Server connection initialized.");
+}
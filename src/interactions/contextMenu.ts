@@ -0,0 +1,198 @@
+import { itemPositions, selectedElementIds, describeItems } from './state.js';
+import { selectItems, getTargetIds } from './selection.js';
+import { changeStackingOrder } from './zOrder.js';
+import { removeItems } from './dragDrop.js';
+import { resetItemTransforms } from './wheelTransform.js';
+import { replaceItemFile } from './fileDrop.js';
+import { setItemsLocked, areItemsLocked, setItemsHidden, areItemsHidden, withoutLockedItems } from './itemFlags.js';
+import { duplicateItems, copyItems, pasteItems } from './clipboard.js';
+import { insertPage, getPageIndex } from './pages.js';
+import { openPageSettingsDialog } from './pageSettingsDialog.js';
+import { findItemElement, groupItems, ungroupItems } from './groups.js';
+import { projectUrl } from './projects.js';
+import { getChordItemIds, setItemAccidentals } from './transpose.js';
+import { showToast } from '../utils.js';
+
+/**
+ * The context menus (right click): on an item it lists the actions for the item or,
+ * if the item is selected, for the whole selection; on the empty page area the page actions.
+ */
+
+export interface ContextMenuEntry {
+  label: string;
+  shortcut?: string; // Shown next to the label
+  disabled?: boolean;
+  action: () => void;
+}
+
+// null adds a separator
+type ContextMenuItem = ContextMenuEntry | null;
+
+let menu: HTMLElement | null = null;
+
+export function closeContextMenu(): void {
+  menu?.remove();
+  menu = null;
+}
+
+/**
+ * Opens a context menu at the given position (kept within the window).
+ * @param x Client x coordinate.
+ * @param y Client y coordinate.
+ * @param items The entries, null for a separator.
+ */
+export function showContextMenu(x: number, y: number, items: ContextMenuItem[]): void {
+  closeContextMenu();
+  menu = document.createElement('div');
+  menu.id = 'context-menu';
+  menu.setAttribute('role', 'menu');
+  for (const item of items) {
+    if (!item) {
+      menu.appendChild(document.createElement('hr'));
+      continue;
+    }
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.setAttribute('role', 'menuitem');
+    button.disabled = item.disabled ?? false;
+    const label = document.createElement('span');
+    label.textContent = item.label;
+    button.appendChild(label);
+    if (item.shortcut) {
+      const shortcut = document.createElement('kbd');
+      shortcut.textContent = item.shortcut;
+      button.appendChild(shortcut);
+    }
+    button.addEventListener('click', () => {
+      closeContextMenu();
+      item.action();
+    });
+    menu.appendChild(button);
+  }
+  document.body.appendChild(menu);
+
+  const { width, height } = menu.getBoundingClientRect();
+  menu.style.left = `${Math.min(x, window.innerWidth - width - 4)}px`;
+  menu.style.top = `${Math.min(y, window.innerHeight - height - 4)}px`;
+}
+
+/**
+ * Asks the server to open the source file of an item with the default application (e.g. a text editor).
+ */
+async function openItemFile(filepath: string): Promise<void> {
+  try {
+    const response = await fetch(projectUrl('/open-file'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filepath })
+    });
+    if (!response.ok) throw new Error(await response.text());
+    showToast(`Opened ${filepath.split('/').pop()}. Saved changes show up here.`, 2500);
+  } catch (error) {
+    console.error('Error opening file:', error);
+    showToast(`Error opening ${filepath}: ${error instanceof Error ? error.message : error}`, 4000);
+  }
+}
+
+/**
+ * Lets the user pick a file that replaces the source file of an item.
+ */
+function chooseReplacementFile(id: string): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.addEventListener('change', () => {
+    const file = input.files?.[0];
+    if (file) replaceItemFile(id, file);
+  });
+  input.click();
+}
+
+function getItemMenuItems(ids: string[]): ContextMenuItem[] {
+  const filepath = ids.length === 1 ? itemPositions[ids[0]!]?.filepath : undefined;
+  const isImage = ids.length === 1 && itemPositions[ids[0]!]?.parser === 'image'; // The server only opens text files
+  const locked = areItemsLocked(ids);
+  const hidden = areItemsHidden(ids);
+  const hasGroup = ids.some(id => itemPositions[id]?.isGroup);
+  const songIds = getChordItemIds(ids);
+  // Offers the other spelling once all songs use flats
+  const flats = songIds.length > 0 && songIds.every(id => itemPositions[id]?.accidentals === 'flat');
+  return [
+    { label: 'Copy', shortcut: 'Ctrl+C', action: () => copyItems(ids) },
+    { label: 'Duplicate', shortcut: 'Ctrl+D', action: () => duplicateItems(ids) },
+    { label: 'Group', shortcut: 'Ctrl+G', disabled: ids.length < 2, action: () => groupItems(ids) },
+    { label: 'Ungroup', shortcut: 'Ctrl+Shift+G', disabled: !hasGroup, action: () => ungroupItems(ids) },
+    null,
+    { label: 'Bring to front', shortcut: 'Ctrl+Shift+]', action: () => changeStackingOrder(ids, 'front') },
+    { label: 'Bring forward', shortcut: 'Ctrl+]', action: () => changeStackingOrder(ids, 'forward') },
+    { label: 'Send backward', shortcut: 'Ctrl+[', action: () => changeStackingOrder(ids, 'backward') },
+    { label: 'Send to back', shortcut: 'Ctrl+Shift+[', action: () => changeStackingOrder(ids, 'back') },
+    null,
+    { label: 'Reset transform', disabled: locked, action: () => resetItemTransforms(ids) },
+    { label: locked ? 'Unlock' : 'Lock', action: () => setItemsLocked(ids, !locked) },
+    { label: hidden ? 'Show in print and export' : 'Hide in print and export', action: () => setItemsHidden(ids, !hidden) },
+    { label: flats ? 'Spell chords with sharps' : 'Spell chords with flats', disabled: songIds.length === 0, action: () => setItemAccidentals(songIds, flats ? 'sharp' : 'flat') },
+    null,
+    { label: 'Replace source file…', disabled: !filepath, action: () => chooseReplacementFile(ids[0]!) },
+    { label: 'Open in editor', disabled: !filepath || isImage, action: () => openItemFile(filepath!) },
+    null,
+    { label: 'Delete from layout', shortcut: 'Del', disabled: locked, action: () => removeItems(withoutLockedItems(ids), false) },
+    {
+      label: 'Delete file',
+      disabled: locked,
+      action: () => {
+        const removableIds = withoutLockedItems(ids);
+        if (removableIds.length === 0) return;
+        const message = removableIds.length === 1
+          ? `Remove "${describeItems(removableIds)}" from the layout and move its file to the trash?`
+          : `Remove ${removableIds.length} items from the layout and move their files to the trash?`;
+        if (confirm(message)) removeItems(removableIds, true);
+      },
+    },
+  ];
+}
+
+function getPageMenuItems(page: HTMLElement, left: number, top: number): ContextMenuItem[] {
+  const index = getPageIndex(page);
+  return [
+    { label: 'Paste', shortcut: 'Ctrl+V', action: () => pasteItems(index, left, top) },
+    null,
+    { label: 'Add page after', action: () => insertPage(index + 1) },
+    { label: 'Page settings…', action: openPageSettingsDialog },
+  ];
+}
+
+function handleContextMenu(event: MouseEvent): void {
+  const target = event.target as Element;
+  const item = findItemElement(target);
+  if (item?.id) {
+    event.preventDefault();
+    // Like a click, right clicking an unselected item selects just that item
+    if (!selectedElementIds.has(item.id)) selectItems([item.id]);
+    showContextMenu(event.clientX, event.clientY, getItemMenuItems(getTargetIds(item.id)));
+    return;
+  }
+
+  const page = target.closest<HTMLElement>('.page-container');
+  if (page && !target.closest('.page-toolbar')) {
+    event.preventDefault();
+    const pageRect = page.getBoundingClientRect();
+    showContextMenu(event.clientX, event.clientY, getPageMenuItems(page, event.clientX - pageRect.left, event.clientY - pageRect.top));
+  }
+  // Browser menu elsewhere
+}
+
+/**
+ * Initializes the context menu and closing it (click elsewhere, Escape, scrolling).
+ */
+export function initializeContextMenu(): void {
+  document.addEventListener('contextmenu', handleContextMenu);
+  document.addEventListener('mousedown', event => {
+    if (menu && !menu.contains(event.target as Node)) closeContextMenu();
+  });
+  document.addEventListener('keydown', event => {
+    if (event.key === 'Escape') closeContextMenu();
+  });
+  window.addEventListener('scroll', closeContextMenu, true);
+  window.addEventListener('blur', closeContextMenu);
+  console.log("Context menu initialized.");
+}
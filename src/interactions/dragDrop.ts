@@ -7,280 +7,446 @@ import {
     updateItemPosition,
     getItemPosition,
     currentlyHoveredItem,
-    selectedElementId,
-    setSelectedElementId,
-    deleteItemPosition
+    selectedElementIds,
+    deleteItemPosition,
+    dragGroup,
+    describeItems,
+    setDragGroup
 } from './state.js';
 import { updateAndSavePositions, savePositions } from './persistence.js';
+import { selectItems, toggleItemSelection, clearSelection, getTargetIds, consumeRubberBandClick, updateSelectionClasses } from './selection.js';
+import { snapPosition, clearSnapGuides } from './snapping.js';
+import { withoutLockedItems } from './itemFlags.js';
+import { findItemElement, withGroupMembers } from './groups.js';
+import { applyItemStyles } from './initialization.js';
 import { showToast } from '../utils.js';
+import { projectUrl } from './projects.js';
+
+interface PointerPosition {
+  x: number; // Client coordinates
+  y: number;
+}
+
+// Scaling and rotating with two fingers
+interface Pinch {
+  distance: number; // Between the fingers when the pinch started
+  angle: number; // Of the line between the fingers (degrees)
+  items: Map<string, { scale: number; rotation: number }>; // When the pinch started
+}
+
+// A gesture on an item, from the first pointerdown until all its pointers are lifted
+interface PointerDrag {
+  element: HTMLElement; // The item under the first pointer
+  pointerType: string;
+  primaryId: number; // The first pointer, it moves the items
+  pointers: Map<number, PointerPosition>;
+  startX: number;
+  startY: number;
+  active: boolean; // Moved beyond the threshold (or pinched), a click otherwise
+  pinch: Pinch | null;
+}
+
+const DRAG_THRESHOLD_PX = 3; // Smaller pointer movements are a click
+const MIN_SCALE = 0.1; // Same as the wheel
+
+let pointerDrag: PointerDrag | null = null;
+let suppressNextClick = false; // The click fired after a drag must not change the selection
 
 /**
  * Handles the click event for draggable items to select them.
+ * Shift/Ctrl/Cmd + click adds or removes the item from the selection.
  * @param event The MouseEvent.
  */
 function handleClick(event: MouseEvent): void {
+  // A rubber-band selection ends with a click, which must not clear the new selection
+  if (consumeRubberBandClick()) return;
+  if (suppressNextClick) {
+    suppressNextClick = false;
+    return;
+  }
+
   const target = event.target as HTMLElement;
-  const draggableItem = target.closest<HTMLElement>('.draggable-item');
+  const draggableItem = findItemElement(target);
 
   if (draggableItem) {
-    // Remove 'selected' class from previously selected element
-    if (selectedElementId) {
-      const prevSelected = document.getElementById(selectedElementId);
-      if (prevSelected) {
-        prevSelected.classList.remove('selected');
-      }
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      toggleItemSelection(draggableItem.id);
+    } else {
+      selectItems([draggableItem.id]);
     }
+  } else if (target.closest('.page-container') || target === document.body || target === document.documentElement) {
+    // Clicked outside a draggable item (on a page or the background), deselect everything
+    clearSelection();
+  }
+}
 
-    // Add 'selected' class to the new selected element
-    draggableItem.classList.add('selected');
-    setSelectedElementId(draggableItem.id);
-    console.log(`Selected element: ${draggableItem.id}`);
-  } else {
-    // Clicked outside a draggable item, deselect if anything is selected
-    if (selectedElementId) {
-      const prevSelected = document.getElementById(selectedElementId);
-      if (prevSelected) {
-        prevSelected.classList.remove('selected');
-      }
-      setSelectedElementId(null);
-      console.log("Deselected element.");
+/**
+ * Sends a request to delete a file from the project directory (it is moved into the project's trash) and reports the result.
+ * @param filepath The path of the file (e.g. /user/songbook/song.txt).
+ */
+async function deleteUserFile(filepath: string): Promise<void> {
+  try {
+    const response = await fetch(projectUrl('/delete-file'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filepath })
+    });
+    if (response.ok) {
+      showToast(`File "${filepath}" moved to the trash.`, 3000);
+      console.log(`File deleted: ${filepath}`);
+    } else {
+      const errorText = await response.text();
+      showToast(`Error deleting file "${filepath}": ${errorText}`, 5000);
+      console.error(`Error deleting file: ${errorText}`);
     }
+  } catch (error) {
+    showToast(`Error sending delete request for "${filepath}": ${error}`, 5000);
+    console.error('Error sending delete file request:', error);
   }
 }
 
+/**
+ * Removes items from the layout in a single history step, optionally moving their files to the trash.
+ * @param ids The IDs of the items to remove.
+ * @param removeFiles If true, the source files are deleted too (moved to the project's trash).
+ */
+export async function removeItems(ids: string[], removeFiles: boolean): Promise<void> {
+  const removedIds = ids.filter(id => document.getElementById(id));
+  if (removedIds.length === 0) return;
+  const elementsToRemove = withGroupMembers(removedIds) // Deleting a group deletes its items
+    .map(id => document.getElementById(id))
+    .filter((element): element is HTMLElement => element !== null);
+
+  const itemLabel = removedIds.length === 1 ? `"${describeItems(removedIds)}"` : `${removedIds.length} items`;
+  const historyLabel = `Deleted ${describeItems(removedIds)}`;
+
+  // Collect file paths before the positions are deleted (several items may share a file)
+  const itemFilepaths = new Set<string>();
+  for (const element of elementsToRemove) {
+    const filepath = getItemPosition(element.id)?.filepath;
+    if (filepath) itemFilepaths.add(filepath);
+
+    // Remove from DOM and state
+    element.remove();
+    deleteItemPosition(element.id);
+    selectedElementIds.delete(element.id);
+  }
+  updateSelectionClasses(); // Deselect the removed items
+
+  // Update history (one step for the whole selection) and save changes to settings.json
+  updateAndSavePositions(historyLabel);
+  showToast(`${itemLabel} removed from layout.`, 3000);
+
+  if (removeFiles) {
+    for (const filepath of itemFilepaths) {
+      await deleteUserFile(filepath);
+    }
+  }
+
+  console.log(`Processed deletion for elements: ${elementsToRemove.map(element => element.id).join(', ')}`);
+}
 
 /**
  * Handles the keydown event for deleting selected items.
+ * All selected items are removed in a single history step.
  * @param event The KeyboardEvent.
  */
 async function handleKeyDown(event: KeyboardEvent): Promise<void> {
-  if (selectedElementId && (event.key === 'Delete' || event.key === 'Backspace')) {
-    const elementToRemove = document.getElementById(selectedElementId);
-    if (elementToRemove) {
-      const itemName = elementToRemove.dataset.filename || selectedElementId; // Use filename if available
-      const itemFilepath = getItemPosition(selectedElementId)?.filepath;
-
-      const confirmMessage = `"${itemName}" will be removed from the layout. Also remove the file from the filesystem?`;
-      const removeFromFileSystem = confirm(confirmMessage);
-
-      // Remove from DOM
-      elementToRemove.remove();
-
-      // Remove from state
-      deleteItemPosition(selectedElementId);
-
-      // Save changes to settings.json
-      await savePositions();
-      showToast(`"${itemName}" removed from layout.`, 3000);
-
-      if (removeFromFileSystem && itemFilepath) {
-        try {
-          const response = await fetch('/delete-file', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ filepath: itemFilepath })
-          });
-          if (response.ok) {
-            showToast(`File "${itemFilepath}" deleted from filesystem.`, 3000);
-            console.log(`File deleted: ${itemFilepath}`);
-          } else {
-            const errorText = await response.text();
-            showToast(`Error deleting file "${itemFilepath}": ${errorText}`, 5000);
-            console.error(`Error deleting file: ${errorText}`);
-          }
-        } catch (error) {
-          showToast(`Error sending delete request for "${itemFilepath}": ${error}`, 5000);
-          console.error('Error sending delete file request:', error);
-        }
-      }
+  if (selectedElementIds.size === 0 || (event.key !== 'Delete' && event.key !== 'Backspace')) return;
 
-      const deletedItemId = selectedElementId; // Store for logging
-      setSelectedElementId(null); // Deselect
-      console.log(`Processed deletion for element: ${deletedItemId}`);
-    }
+  const targetElement = event.target as HTMLElement;
+  if (targetElement && (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA' || targetElement.isContentEditable)) {
+      return; // Don't delete items while typing
   }
-}
 
+  const ids = withoutLockedItems(Array.from(selectedElementIds).filter(id => document.getElementById(id)));
+  if (ids.length === 0) return;
+
+  const confirmMessage = ids.length === 1
+    ? `"${describeItems(ids)}" will be removed from the layout. Also remove the file from the filesystem (moved to the trash)?`
+    : `${ids.length} items will be removed from the layout. Also remove their files from the filesystem (moved to the trash)?`;
+  await removeItems(ids, confirm(confirmMessage));
+}
 
 /**
- * Handles the dragstart event for draggable items.
- * Sets the dragged element state, calculates drag offset, and hides the default drag image.
- * @param event The DragEvent.
+ * Moves all other members of the drag group along with the dragged element.
+ * Items that started on the dragged element's page follow it to the target page,
+ * items from other pages are shifted by the same amount on their own page.
+ * @param targetPage The page container the dragged element is over.
+ * @param left The new left position (px) of the dragged element.
+ * @param top The new top position (px) of the dragged element.
  */
-function handleDragStart(event: DragEvent): void {
-  const draggableTarget = (event.target as Element)?.closest<HTMLElement>('.draggable-item');
-  if (draggableTarget) {
-    setDraggedElement(draggableTarget);
-    const pageContainer = draggedElement!.closest<HTMLElement>('.page-container');
-    if (!pageContainer) return; // Should not happen if element is placed correctly
-
-    // --- Reverted Offset Calculation ---
-    // Calculate offset relative to the element's unrotated top-left corner within the page container.
-    // This is necessary for correct positioning during drag when rotation is applied.
-    const containerRect = pageContainer.getBoundingClientRect();
-    // Use getComputedStyle to get the actual rendered left/top (layout position)
-    const style = window.getComputedStyle(draggedElement!);
-    const elementLeft = parseFloat(style.left || '0');
-    const elementTop = parseFloat(style.top || '0');
-
-    // Calculate the element's unrotated top-left corner position relative to the viewport
-    const elementViewportX = containerRect.left + elementLeft;
-    const elementViewportY = containerRect.top + elementTop;
-
-    // Calculate the offset from the element's unrotated top-left corner to the mouse click
-    const offsetX = event.clientX - elementViewportX;
-    const offsetY = event.clientY - elementViewportY;
-    setDragOffset(offsetX, offsetY);
-    console.log(`Drag Start: Set draggedElement to ${draggableTarget.id}, Offset: (${offsetX.toFixed(1)}, ${offsetY.toFixed(1)})`); // Log start with offset
-
-    if (event.dataTransfer) {
-      event.dataTransfer.effectAllowed = 'move';
-      // Hide the default browser drag preview
-      const emptyImage = new Image();
-      emptyImage.src = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'; // 1x1 transparent GIF
-      event.dataTransfer.setDragImage(emptyImage, 0, 0);
+function moveDragGroup(targetPage: HTMLElement, left: number, top: number): void {
+  const primary = dragGroup.find(member => member.element === draggedElement);
+  if (!primary) return;
+
+  const deltaX = left - primary.startLeft;
+  const deltaY = top - primary.startTop;
+  for (const member of dragGroup) {
+    if (member === primary) continue;
+    const page = member.startPage === primary.startPage ? targetPage : member.startPage;
+    if (member.element.parentElement !== page) {
+      page.appendChild(member.element);
     }
-    draggedElement!.classList.add('dragging');
-    document.body.style.cursor = 'var(--cursor-grabbing)'; // Use CSS variable
+    member.element.style.left = `${member.startLeft + deltaX}px`;
+    member.element.style.top = `${member.startTop + deltaY}px`;
   }
 }
 
 /**
- * Handles the dragover event.
- * Prevents default handling, calculates the new position based on mouse movement,
- * updates the element's style to follow the cursor, and moves the element between pages if necessary.
- * Updates the body cursor based on modifier keys.
- * @param event The DragEvent.
+ * Finds the page container under a client position, falling back to the page the dragged element is on.
  */
-function handleDragOver(event: DragEvent): void {
-  event.preventDefault(); // Necessary to allow dropping
-
-  if (draggedElement) {
-    // Find the page container the mouse is currently over
-    let currentTargetPage = document.elementFromPoint(event.clientX, event.clientY) as HTMLElement | null;
-    while (currentTargetPage && !currentTargetPage.classList.contains('page-container')) {
-        currentTargetPage = currentTargetPage.parentElement as HTMLElement | null;
-    }
-    // Fallback to the original page if not over any specific page
-    const originalPage = draggedElement.closest<HTMLElement>('.page-container');
-    const pageContainer = currentTargetPage || originalPage;
-
-    if (!pageContainer) return; // Should not happen
-
-    // Calculate position relative to the current page container
-    const containerRect = pageContainer.getBoundingClientRect();
-    let newLeft = event.clientX - containerRect.left - dragOffsetX;
-    let newTop = event.clientY - containerRect.top - dragOffsetY;
-
-    // Update the element's style directly to make it follow the mouse
-    draggedElement.style.left = `${newLeft}px`;
-    draggedElement.style.top = `${newTop}px`;
-
-    // If the element is dragged over a *different* page, temporarily move it in the DOM
-    if (pageContainer !== draggedElement.parentElement) {
-        pageContainer.appendChild(draggedElement);
-        // Re-apply position after DOM move to be sure
-        draggedElement.style.left = `${newLeft}px`;
-        draggedElement.style.top = `${newTop}px`;
-    }
+function getPageAt(clientX: number, clientY: number): HTMLElement | null {
+  let page = document.elementFromPoint(clientX, clientY) as HTMLElement | null;
+  while (page && !page.classList.contains('page-container')) {
+    page = page.parentElement as HTMLElement | null;
   }
+  return page || draggedElement?.closest<HTMLElement>('.page-container') || null;
 }
 
 /**
- * Handles the drop event.
- * Prevents default handling, determines the final page container, calculates the final position,
- * updates the element's style and the central state, and triggers history update and save.
- * @param event The DragEvent.
+ * Starts moving the item under the first pointer (once the pointer moved beyond the threshold,
+ * or a second finger touched down): selects it if needed and collects the items moved along.
+ * @returns False if the item is locked and stays in place.
  */
-function handleDrop(event: DragEvent): void {
-  event.preventDefault();
-  if (draggedElement) {
-    let dropTargetContainer = document.elementFromPoint(event.clientX, event.clientY) as HTMLElement | null;
-    while (dropTargetContainer && !dropTargetContainer.classList.contains('page-container')) {
-      dropTargetContainer = dropTargetContainer.parentElement as HTMLElement | null;
-    }
-    const originalContainer = draggedElement.closest<HTMLElement>('.page-container');
-    const pageContainer = dropTargetContainer || originalContainer;
+function startItemDrag(drag: PointerDrag): boolean {
+  const draggableTarget = drag.element;
+  if (getItemPosition(draggableTarget.id)?.locked) {
+    showToast(`${describeItems([draggableTarget.id])} is locked.`, 1500);
+    return false;
+  }
+  const pageContainer = draggableTarget.closest<HTMLElement>('.page-container');
+  if (!pageContainer) return false; // Should not happen if element is placed correctly
+  setDraggedElement(draggableTarget);
+
+  // Calculate offset relative to the element's unrotated top-left corner within the page container.
+  // This is necessary for correct positioning during drag when rotation is applied.
+  const containerRect = pageContainer.getBoundingClientRect();
+  // Use getComputedStyle to get the actual rendered left/top (layout position)
+  const style = window.getComputedStyle(draggableTarget);
+  const offsetX = drag.startX - (containerRect.left + parseFloat(style.left || '0'));
+  const offsetY = drag.startY - (containerRect.top + parseFloat(style.top || '0'));
+  setDragOffset(offsetX, offsetY);
+  console.log(`Drag Start: Set draggedElement to ${draggableTarget.id}, Offset: (${offsetX.toFixed(1)}, ${offsetY.toFixed(1)})`);
+
+  // Dragging an unselected item selects just that item, dragging a selected one moves the whole selection
+  if (!selectedElementIds.has(draggableTarget.id)) {
+    selectItems([draggableTarget.id]);
+  }
+  const groupMembers = getTargetIds(draggableTarget.id).flatMap(id => {
+    if (getItemPosition(id)?.locked) return []; // Locked items of the selection stay in place
+    const element = document.getElementById(id);
+    const startPage = element?.closest<HTMLElement>('.page-container');
+    if (!element || !startPage) return [];
+    const memberStyle = window.getComputedStyle(element);
+    return [{
+      element,
+      startLeft: parseFloat(memberStyle.left || '0'),
+      startTop: parseFloat(memberStyle.top || '0'),
+      startPage
+    }];
+  });
+  setDragGroup(groupMembers);
+
+  dragGroup.forEach(member => member.element.classList.add('dragging'));
+  document.body.style.cursor = 'var(--cursor-grabbing)'; // Use CSS variable
+  return true;
+}
 
-    if (!pageContainer) return; // Should not happen
+/**
+ * Moves the dragged element (and the rest of the drag group) to follow the pointer.
+ * Snaps it to guides (unless Shift is held) and moves it between pages if necessary.
+ */
+function moveDraggedItems(event: PointerEvent): void {
+  if (!draggedElement) return;
+  const pageContainer = getPageAt(event.clientX, event.clientY);
+  if (!pageContainer) return; // Should not happen
+
+  // Calculate position relative to the current page container
+  const containerRect = pageContainer.getBoundingClientRect();
+  let newLeft = event.clientX - containerRect.left - dragOffsetX;
+  let newTop = event.clientY - containerRect.top - dragOffsetY;
+
+  // Snap to page margins, centre lines and other items (hold Shift to place freely)
+  ({ left: newLeft, top: newTop } = snapPosition(draggedElement, pageContainer, newLeft, newTop, event.shiftKey));
+
+  // If the element is dragged over a *different* page, move it in the DOM
+  if (pageContainer !== draggedElement.parentElement) {
+    pageContainer.appendChild(draggedElement);
+  }
+  draggedElement.style.left = `${newLeft}px`;
+  draggedElement.style.top = `${newTop}px`;
+  moveDragGroup(pageContainer, newLeft, newTop);
+}
 
-    const containerRect = pageContainer.getBoundingClientRect();
-    let finalLeft = event.clientX - containerRect.left - dragOffsetX;
-    let finalTop = event.clientY - containerRect.top - dragOffsetY;
+/**
+ * Stores the positions of all moved items in the central state
+ * (updateItemPosition merges, so width, opacity, rotation etc. are preserved).
+ * @returns The IDs of the moved items.
+ */
+function storeDraggedPositions(): string[] {
+  for (const { element } of dragGroup) {
+    const page = element.closest<HTMLElement>('.page-container');
+    updateItemPosition(element.id, {
+      left: element.style.left,
+      top: element.style.top,
+      pageIndex: parseInt(page?.id.split('-')[1] || '0', 10)
+    });
+  }
+  return dragGroup.map(member => member.element.id);
+}
 
-    // Ensure the element is in the final container's DOM
-    if (pageContainer !== draggedElement.parentElement) {
-      pageContainer.appendChild(draggedElement);
-    }
+function getPinchGeometry(pointers: Map<number, PointerPosition>): { distance: number; angle: number } {
+  const [first, second] = Array.from(pointers.values());
+  const dx = second!.x - first!.x;
+  const dy = second!.y - first!.y;
+  return { distance: Math.hypot(dx, dy), angle: Math.atan2(dy, dx) * 180 / Math.PI };
+}
 
-    // Apply final position
-    const finalLeftPx = `${finalLeft}px`;
-    const finalTopPx = `${finalTop}px`;
-    draggedElement.style.left = finalLeftPx;
-    draggedElement.style.top = finalTopPx;
-
-    const pageIndex = parseInt(pageContainer.id.split('-')[1] || '0', 10);
-    const itemId = draggedElement.id;
-
-    // Update stored position in the central state
-    // Preserve existing width, opacity, rotation if they exist
-    const existingPosition = getItemPosition(itemId);
-    updateItemPosition(itemId, {
-      left: finalLeftPx,
-      top: finalTopPx,
-      pageIndex: pageIndex,
-      width: existingPosition?.width, // Preserve existing
-      opacity: existingPosition?.opacity, // Preserve existing
-      rotation: existingPosition?.rotation // Preserve existing
-    });
+/**
+ * Starts scaling and rotating the dragged items with two fingers (each around its own centre).
+ * The items stay where they were moved to so far.
+ */
+function startPinch(drag: PointerDrag): void {
+  storeDraggedPositions(); // applyItemStyles() places the items from the state
+  const { distance, angle } = getPinchGeometry(drag.pointers);
+  const items = new Map<string, { scale: number; rotation: number }>();
+  for (const { element } of dragGroup) {
+    const pos = getItemPosition(element.id);
+    if (pos) items.set(element.id, { scale: parseFloat(pos.scale || '1'), rotation: pos.rotation || 0 });
+  }
+  drag.pinch = { distance: Math.max(1, distance), angle, items };
+}
 
-    updateAndSavePositions(); // Update history and save
+function applyPinch(pinch: Pinch, pointers: Map<number, PointerPosition>): void {
+  const { distance, angle } = getPinchGeometry(pointers);
+  const factor = distance / pinch.distance;
+  const deltaAngle = angle - pinch.angle;
+  for (const [id, start] of pinch.items) {
+    const element = document.getElementById(id);
+    if (!element) continue;
+    const scale = Math.max(MIN_SCALE, Math.round(start.scale * factor * 1000) / 1000);
+    const rotation = Math.round((start.rotation + deltaAngle) * 10) / 10;
+    updateItemPosition(id, { scale: scale !== 1 ? String(scale) : undefined, rotation });
+    applyItemStyles(element, getItemPosition(id)!);
   }
 }
 
 /**
- * Handles the dragend event.
- * Cleans up by removing the 'dragging' class, resetting cursors, and clearing the dragged element state.
- * @param event The DragEvent.
+ * Handles pointerdown on items: the first pointer (mouse, pen or finger) starts a possible move,
+ * a second finger on a touch screen switches to scaling and rotating.
+ * @param event The PointerEvent.
  */
-function handleDragEnd(event: DragEvent): void {
-  console.log(`Drag End: Entered. Current draggedElement: ${draggedElement?.id ?? 'null'}`); // Log entry
-  // Reset body cursor first, regardless of draggedElement state
-  document.body.style.cursor = '';
+function handlePointerDown(event: PointerEvent): void {
+  if (pointerDrag) {
+    if (pointerDrag.pointerType !== 'touch' || event.pointerType !== 'touch' || pointerDrag.pointers.size !== 1) return;
+    if (!pointerDrag.active) {
+      if (!startItemDrag(pointerDrag)) {
+        endPointerDrag();
+        return;
+      }
+      pointerDrag.active = true;
+    }
+    pointerDrag.element.setPointerCapture(event.pointerId);
+    pointerDrag.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    startPinch(pointerDrag);
+    return;
+  }
 
-  if (draggedElement) {
-    const endedElementId = draggedElement.id; // Store ID before potential nulling
-    draggedElement.classList.remove('dragging');
+  suppressNextClick = false; // Reset in case the last drag ended without a click event
+  if (event.button !== 0) return;
+  const element = findItemElement(event.target);
+  if (!element?.id) return;
+  element.setPointerCapture(event.pointerId); // Keep receiving the events when the pointer leaves the item
+  pointerDrag = {
+    element,
+    pointerType: event.pointerType,
+    primaryId: event.pointerId,
+    pointers: new Map([[event.pointerId, { x: event.clientX, y: event.clientY }]]),
+    startX: event.clientX,
+    startY: event.clientY,
+    active: false,
+    pinch: null,
+  };
+}
 
-    // Reset item cursor based on whether it's still hovered
-    if (document.body.contains(draggedElement)) { // Check if element still exists
-        // Simplified cursor reset
-        draggedElement.style.cursor = '';
-        console.log(`Drag End: Reset cursor for ${endedElementId}`);
-    } else {
-        console.log(`Drag End: Element ${endedElementId} no longer in DOM?`);
+/**
+ * Handles pointermove: moves the items with the first pointer, or scales and rotates them with two fingers.
+ * @param event The PointerEvent.
+ */
+function handlePointerMove(event: PointerEvent): void {
+  if (!pointerDrag?.pointers.has(event.pointerId)) return;
+  pointerDrag.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+  if (pointerDrag.pinch) {
+    if (pointerDrag.pointers.size === 2) applyPinch(pointerDrag.pinch, pointerDrag.pointers);
+    return; // After lifting one finger the items stay in place, so they don't jump
+  }
+  if (event.pointerId !== pointerDrag.primaryId) return;
+
+  if (!pointerDrag.active) {
+    if (Math.hypot(event.clientX - pointerDrag.startX, event.clientY - pointerDrag.startY) < DRAG_THRESHOLD_PX) return;
+    if (!startItemDrag(pointerDrag)) {
+      endPointerDrag();
+      return;
     }
+    pointerDrag.active = true;
+  }
+  moveDraggedItems(event);
+}
 
-    console.log(`Drag End: Clearing draggedElement (was ${endedElementId})`);
-    setDraggedElement(null); // Clear the state
-    console.log(`Drag End: State cleared. draggedElement is now: ${draggedElement?.id ?? 'null'}`); // Verify clear
-  } else {
-    console.log("Drag End: No draggedElement was set.");
+/**
+ * Handles pointerup and pointercancel: the gesture ends when all its pointers are lifted.
+ * The moved (and transformed) items are stored as one history step.
+ * @param event The PointerEvent.
+ */
+function handlePointerUp(event: PointerEvent): void {
+  if (!pointerDrag?.pointers.has(event.pointerId)) return;
+  if (event.pointerId === pointerDrag.primaryId && pointerDrag.active && !pointerDrag.pinch) {
+    moveDraggedItems(event); // The final position
   }
-   // Reset body cursor even if no draggedElement was tracked (safety)
-   document.body.style.cursor = '';
+  pointerDrag.pointers.delete(event.pointerId);
+  if (pointerDrag.pointers.size > 0) return;
+
+  if (pointerDrag.active) {
+    clearSnapGuides();
+    const movedIds = storeDraggedPositions();
+    if (movedIds.length > 0) {
+      updateAndSavePositions(`${pointerDrag.pinch ? 'Transformed' : 'Moved'} ${describeItems(movedIds)}`); // Update history and save
+    }
+    suppressNextClick = true; // The click after the drag must not change the selection
+  }
+  endPointerDrag();
+}
+
+/**
+ * Cleans up after a gesture: removes the 'dragging' class, resets the cursor and clears the drag state.
+ */
+function endPointerDrag(): void {
+  document.body.style.cursor = '';
+  clearSnapGuides();
+  dragGroup.forEach(member => member.element.classList.remove('dragging'));
+  setDragGroup([]);
+  if (draggedElement) console.log(`Drag End: Clearing draggedElement (was ${draggedElement.id})`);
+  setDraggedElement(null);
+  pointerDrag = null;
 }
 
 
 /**
- * Initializes all drag and drop event listeners.
+ * Initializes the listeners for selecting, moving and deleting items.
+ * Items are moved with Pointer Events (mouse, pen and touch); native drag and drop is left to file drops.
  */
 export function initializeDragDropListeners(): void {
   document.addEventListener('click', handleClick);
   document.addEventListener('keydown', handleKeyDown);
-  document.addEventListener('dragstart', handleDragStart);
-  document.addEventListener('dragover', handleDragOver);
-  document.addEventListener('drop', handleDrop);
-  document.addEventListener('dragend', handleDragEnd);
+  document.addEventListener('pointerdown', handlePointerDown);
+  document.addEventListener('pointermove', handlePointerMove);
+  document.addEventListener('pointerup', handlePointerUp);
+  document.addEventListener('pointercancel', handlePointerUp);
+  // Images and selected text in items would start a native drag
+  document.addEventListener('dragstart', event => {
+    if (findItemElement(event.target)) event.preventDefault();
+  });
   console.log("Drag and drop listeners initialized.");
 }
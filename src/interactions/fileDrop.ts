@@ -1,14 +1,22 @@
 import { showToast } from '../utils.js';
-import { updateItemPosition, getItemId, draggedElement } from './state.js'; // Added draggedElement
+import { updateItemPosition, getItemId, describeItems } from './state.js';
 import { parseContent } from '../parsers/index.js';
 import type { ParsedItemData } from '../parsers/types.js';
 import { updateAndSavePositions } from './persistence.js';
+import { projectUrl } from './projects.js';
+import { applyPositions } from './initialization.js';
+import { updateSelectionClasses } from './selection.js';
 
 // --- File Drag and Drop Handlers ---
+// Native drag and drop is only used for files from outside, items are moved with Pointer Events (see dragDrop.ts).
+
+function isFileDrag(event: DragEvent): boolean {
+    return event.dataTransfer?.types.includes('Files') ?? false;
+}
 
 function handleFileDragOver(event: DragEvent): void {
-    // Only show feedback if NOT dragging an internal element
-    if (!draggedElement) {
+    // Only show feedback (and allow dropping) for files
+    if (isFileDrag(event)) {
         event.preventDefault();
         document.body.classList.add('file-drag-over');
     }
@@ -20,15 +28,9 @@ function handleFileDragLeave(event: DragEvent): void {
 }
 
 async function handleFileDrop(event: DragEvent): Promise<void> {
-    event.preventDefault();
     document.body.classList.remove('file-drag-over');
-
-    // --- Prevent file drop if an element drag is in progress ---
-    if (draggedElement) {
-        console.log("File drop ignored because an element drag is active.");
-        return;
-    }
-    // --- End Prevention ---
+    if (!isFileDrag(event)) return;
+    event.preventDefault(); // Don't open the file in the browser
 
     if (event.dataTransfer?.files) {
         const files = Array.from(event.dataTransfer.files);
@@ -37,25 +39,12 @@ async function handleFileDrop(event: DragEvent): Promise<void> {
         showToast(`Uploading ${files.length} file(s)...`, 2000);
 
         for (const file of files) {
-            const formData = new FormData();
-            formData.append('file', file);
-
             try {
-                const response = await fetch('/user', {
-                    method: 'POST',
-                    body: formData,
-                });
-
-                if (!response.ok) {
-                    throw new Error(`Upload failed: ${response.statusText}`);
-                }
-
-                const result = await response.json();
-                console.log('Upload successful:', result);
+                const filePath = await uploadFile(file);
                 showToast(`Uploaded: ${file.name}`, 3000);
 
                 // Add the new item to the page, using the original filename
-                addNewItemToPage(file.name, result.path, event.clientX, event.clientY);
+                addNewItemToPage(file.name, filePath, event.clientX, event.clientY);
 
             } catch (error) {
                 console.error('Error uploading file:', file.name, error);
@@ -66,39 +55,68 @@ async function handleFileDrop(event: DragEvent): Promise<void> {
 }
 
 /**
- * Determines the type of item based on filename and potentially content.
- * Fetches content if necessary, parses it using the appropriate parser,
- * and adds the resulting element to the page at the drop location.
+ * Uploads a file into the project directory.
+ * @param keepExisting If true, a different file with the same name is kept and the upload gets
+ * a unique name (a file with the same bytes is reused). Otherwise the file is replaced.
+ * @returns The path the file is served from, e.g. /user/songbook/song.txt.
  */
-async function addNewItemToPage(filename: string, filePath: string, dropX: number, dropY: number): Promise<void> {
+export async function uploadFile(file: File, keepExisting: boolean = false): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (keepExisting) formData.append('keepExisting', '1');
+    const response = await fetch(projectUrl('/user'), {
+        method: 'POST',
+        body: formData,
+    });
+    if (!response.ok) {
+        throw new Error(`Upload failed: ${response.statusText}`);
+    }
+    const result = await response.json();
+    console.log('Upload successful:', result);
+    return result.path;
+}
+
+/**
+ * Determines the type of item based on filename and potentially content,
+ * fetches the content if necessary and parses it using the appropriate parser.
+ */
+async function parseUploadedFile(filename: string, filePath: string): Promise<ParsedItemData> {
     let content: string;
-    let parsedData: ParsedItemData;
+    const isImage = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'].includes(filename.split('.').pop()?.toLowerCase() || '');
 
-    try {
-        const isImage = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp'].includes(filename.split('.').pop()?.toLowerCase() || '');
-
-        if (isImage) {
-            // Assuming images are served from a /static/ path prefix,
-            // and filePath is the filename relative to the server's static root.
-            if (filePath.startsWith('data:')) { // Handle data URLs correctly
-                content = filePath;
-            } else {
-                // filePath is expected to be the correct server path, e.g., /user/image.jpg
-                // This path is returned by the server ('/user' endpoint in index.ts)
-                content = filePath;
-            }
+    if (isImage) {
+        // Assuming images are served from a /static/ path prefix,
+        // and filePath is the filename relative to the server's static root.
+        if (filePath.startsWith('data:')) { // Handle data URLs correctly
+            content = filePath;
         } else {
-            // Assuming non-image text files are served from root or their path is already correct.
-            // If they also need a /static/ prefix, this fetch URL would need adjustment too.
-            const response = await fetch(filePath);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch content for ${filename}: ${response.statusText}`);
-            }
-            content = await response.text();
+            // filePath is expected to be the correct server path, e.g., /user/image.jpg
+            // This path is returned by the server ('/user' endpoint in index.ts)
+            content = filePath;
         }
+    } else {
+        // Assuming non-image text files are served from root or their path is already correct.
+        // If they also need a /static/ prefix, this fetch URL would need adjustment too.
+        const response = await fetch(filePath);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch content for ${filename}: ${response.statusText}`);
+        }
+        content = await response.text();
+    }
 
-        parsedData = await parseContent(filename, content);
+    return parseContent(filename, content);
+}
 
+/**
+ * Parses an uploaded file and adds the resulting element to the page at the drop location.
+ * @param dropX Client x coordinate of the top left corner of the item.
+ * @param dropY Client y coordinate.
+ */
+export async function addNewItemToPage(filename: string, filePath: string, dropX: number, dropY: number): Promise<void> {
+    let parsedData: ParsedItemData;
+
+    try {
+        parsedData = await parseUploadedFile(filename, filePath);
     } catch (error) {
         console.error(`Error processing file ${filename}:`, error);
         showToast(`Error processing ${filename}: ${error instanceof Error ? error.message : 'Unknown error'}`, 4000);
@@ -109,7 +127,6 @@ async function addNewItemToPage(filename: string, filePath: string, dropX: numbe
     const newItemId = getItemId(filename);
     newItemContainer.id = newItemId;
     newItemContainer.classList.add('draggable-item');
-    newItemContainer.draggable = true;
     newItemContainer.dataset.filename = filename;
     newItemContainer.dataset.parser = parsedData.parserName;
 
@@ -155,10 +172,35 @@ async function addNewItemToPage(filename: string, filePath: string, dropX: numbe
     }
 
     updateItemPosition(newItemId, positionData);
-    updateAndSavePositions();
+    updateAndSavePositions(`Added ${filename}`);
     showToast(`Added ${filename}`, 2000);
 }
 
+/**
+ * Replaces the source file of an item with another file (uploaded into the project).
+ * Position, size and transforms of the item are kept.
+ * @param id The item ID.
+ * @param file The new source file.
+ */
+export async function replaceItemFile(id: string, file: File): Promise<void> {
+    const oldFilename = describeItems([id]);
+    try {
+        const filePath = await uploadFile(file);
+        const parsedData = await parseUploadedFile(file.name, filePath);
+        updateItemPosition(id, { filepath: filePath, parser: parsedData.parserName });
+    } catch (error) {
+        console.error(`Error replacing the file of ${id}:`, error);
+        showToast(`Error replacing ${oldFilename}: ${error instanceof Error ? error.message : 'Unknown error'}`, 4000);
+        return;
+    }
+
+    document.getElementById(id)?.remove(); // Re-created from the new file
+    await applyPositions();
+    updateSelectionClasses();
+    updateAndSavePositions(`Replaced ${oldFilename} with ${file.name}`);
+    showToast(`Replaced ${oldFilename} with ${file.name}`, 2000);
+}
+
 /**
  * Initializes the file drag and drop listeners on the body.
  */
@@ -0,0 +1,243 @@
+import type { ItemPosition } from './types.js';
+import { itemPositions, selectedElementIds, getItemId, updateItemPosition, deleteItemPosition, describeItems } from './state.js';
+import { applyPositions } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { selectItems } from './selection.js';
+import { getStackingOrder, applyStackingOrder } from './zOrder.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Groups: items that move and transform as one unit, e.g. a song and its chord diagrams.
+ * A group is an entry of its own (isGroup) with position, size, rotation, scale and opacity;
+ * its items refer to it by groupId and are positioned within it. The group is rendered as a
+ * container around its items, so dragging, the wheel and the keyboard act on the whole group.
+ * Ungrouping bakes the transform of the group into its items.
+ * - Ctrl/Cmd + G: Group the selection
+ * - Ctrl/Cmd + Shift + G: Ungroup the selected groups
+ */
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Returns the item element an event target belongs to: for an item in a group, the (outermost) group.
+ * @param target E.g. the target of a mouse event.
+ */
+export function findItemElement(target: EventTarget | null): HTMLElement | null {
+  return (target as Element | null)?.closest?.<HTMLElement>('.draggable-item:not(.grouped)') ?? null;
+}
+
+/**
+ * Returns the number of groups an item is nested in (0 for items directly on a page).
+ */
+export function getGroupDepth(id: string): number {
+  let depth = 0;
+  for (let groupId = itemPositions[id]?.groupId; groupId && depth < 100; groupId = itemPositions[groupId]?.groupId) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Returns the ID of the item on the page an item belongs to: the outermost group, or the item itself.
+ */
+export function getTopLevelId(id: string): string {
+  let topLevelId = id;
+  while (itemPositions[topLevelId]?.groupId && itemPositions[itemPositions[topLevelId]!.groupId!]) {
+    topLevelId = itemPositions[topLevelId]!.groupId!;
+  }
+  return topLevelId;
+}
+
+/**
+ * Adds the items of groups (also of nested groups) to a list of items.
+ * @param ids The item IDs.
+ * @returns The items followed by their group members, each group before its members.
+ */
+export function withGroupMembers(ids: string[]): string[] {
+  const result = [...ids];
+  for (let i = 0; i < result.length; i++) {
+    const groupId = result[i]!;
+    if (!itemPositions[groupId]?.isGroup) continue;
+    for (const [id, pos] of Object.entries(itemPositions)) {
+      if (pos.groupId === groupId && !result.includes(id)) result.push(id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Points copied group members to the copies of their groups (after copying items including their groups).
+ * @param copyIds The IDs of the copies by the IDs of the originals.
+ */
+export function remapCopiedGroups(copyIds: Map<string, string>): void {
+  for (const copyId of copyIds.values()) {
+    const groupId = itemPositions[copyId]?.groupId;
+    const groupCopyId = groupId ? copyIds.get(groupId) : undefined;
+    if (groupCopyId) {
+      updateItemPosition(copyId, { groupId: groupCopyId, pageIndex: itemPositions[groupCopyId]!.pageIndex });
+    }
+  }
+}
+
+/**
+ * The layout size of an item: the rendered size (without transforms), otherwise the stored one.
+ */
+function getItemSize(id: string): Size {
+  const element = document.getElementById(id);
+  const pos = itemPositions[id]!;
+  return {
+    width: element?.offsetWidth || parseFloat(pos.width ?? '') || 0,
+    height: element?.offsetHeight || parseFloat(pos.height ?? '') || 0,
+  };
+}
+
+/**
+ * Groups items (as one history step). The group is placed around the items, so they don't move.
+ * @param ids The items to group, usually the selection. They have to be on the same page.
+ */
+export async function groupItems(ids: string[]): Promise<void> {
+  const memberIds = ids.filter(id => itemPositions[id] && !itemPositions[id].groupId);
+  if (memberIds.length < 2) {
+    showToast('Select at least two items to group.', 2000);
+    return;
+  }
+  const pageIndex = itemPositions[memberIds[0]!]!.pageIndex ?? 0;
+  if (memberIds.some(id => (itemPositions[id]!.pageIndex ?? 0) !== pageIndex)) {
+    showToast('Only items on the same page can be grouped.', 2000);
+    return;
+  }
+
+  // The bounding box of the items (without their transforms, like their positions)
+  const boxes = memberIds.map(id => ({ id, left: parseFloat(itemPositions[id]!.left), top: parseFloat(itemPositions[id]!.top), ...getItemSize(id) }));
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  const right = Math.max(...boxes.map(box => box.left + box.width));
+  const bottom = Math.max(...boxes.map(box => box.top + box.height));
+
+  // The group takes the place of its topmost item in the stacking order
+  const pageOrder = getStackingOrder(pageIndex);
+  const groupId = getItemId('group');
+  updateItemPosition(groupId, {
+    left: `${round(left)}px`,
+    top: `${round(top)}px`,
+    width: `${round(right - left)}px`,
+    height: `${round(bottom - top)}px`,
+    pageIndex,
+    isGroup: true,
+  });
+  for (const box of boxes) {
+    updateItemPosition(box.id, { groupId, left: `${round(box.left - left)}px`, top: `${round(box.top - top)}px` });
+  }
+  applyStackingOrder(pageOrder.filter(id => memberIds.includes(id))); // Their order within the group
+  const topmostIndex = Math.max(...memberIds.map(id => pageOrder.indexOf(id)));
+  pageOrder.splice(topmostIndex + 1, 0, groupId);
+  applyStackingOrder(pageOrder.filter(id => !memberIds.includes(id)));
+
+  await applyPositions();
+  selectItems([groupId]);
+  updateAndSavePositions(`Grouped ${describeItems(memberIds)}`);
+  showToast(`Grouped ${describeItems(memberIds)}.`, 1500);
+}
+
+/**
+ * Converts the position of a group member to page coordinates: the same visual position
+ * and transform without the group. The group and the member are transformed around their centres.
+ * @param group The group.
+ * @param groupSize The layout size of the group.
+ * @param member The member (positioned within the group).
+ * @param memberSize The layout size of the member.
+ * @returns The changed properties of the member.
+ */
+function bakeGroupTransform(group: ItemPosition, groupSize: Size, member: ItemPosition, memberSize: Size): Partial<ItemPosition> {
+  const groupScale = parseFloat(group.scale || '1');
+  const radians = (group.rotation || 0) * Math.PI / 180;
+  // Centre of the member relative to the centre of the group, scaled and rotated with the group
+  const offsetX = (parseFloat(member.left) + memberSize.width / 2 - groupSize.width / 2) * groupScale;
+  const offsetY = (parseFloat(member.top) + memberSize.height / 2 - groupSize.height / 2) * groupScale;
+  const centerX = parseFloat(group.left) + groupSize.width / 2 + offsetX * Math.cos(radians) - offsetY * Math.sin(radians);
+  const centerY = parseFloat(group.top) + groupSize.height / 2 + offsetX * Math.sin(radians) + offsetY * Math.cos(radians);
+
+  const scale = round(parseFloat(member.scale || '1') * groupScale, 3);
+  const opacity = round((member.opacity ?? 1) * (group.opacity ?? 1), 3);
+  return {
+    left: `${round(centerX - memberSize.width / 2)}px`,
+    top: `${round(centerY - memberSize.height / 2)}px`,
+    rotation: round((member.rotation || 0) + (group.rotation || 0)),
+    scale: scale !== 1 ? String(scale) : undefined,
+    opacity: opacity < 1 ? opacity : undefined,
+    locked: member.locked || group.locked || undefined,
+    hidden: member.hidden || group.hidden || undefined,
+  };
+}
+
+/**
+ * Dissolves groups (as one history step). Their items keep their look and take the place
+ * of the group in the stacking order.
+ * @param ids The groups, usually the selection (other items are ignored).
+ */
+export async function ungroupItems(ids: string[]): Promise<void> {
+  const groupIds = ids.filter(id => itemPositions[id]?.isGroup);
+  if (groupIds.length === 0) {
+    showToast('Select a group to ungroup.', 2000);
+    return;
+  }
+
+  const memberIds: string[] = [];
+  for (const groupId of groupIds) {
+    const group = itemPositions[groupId]!;
+    const pageIndex = group.pageIndex ?? 0;
+    const groupSize = { width: parseFloat(group.width ?? '') || getItemSize(groupId).width, height: parseFloat(group.height ?? '') || getItemSize(groupId).height };
+    const members = getStackingOrder(pageIndex, groupId);
+    const pageOrder = getStackingOrder(pageIndex, group.groupId);
+
+    for (const id of members) {
+      updateItemPosition(id, { ...bakeGroupTransform(group, groupSize, itemPositions[id]!, getItemSize(id)), groupId: group.groupId });
+    }
+    deleteItemPosition(groupId);
+    pageOrder.splice(pageOrder.indexOf(groupId), 1, ...members);
+    applyStackingOrder(pageOrder);
+    memberIds.push(...members);
+  }
+
+  await applyPositions(); // Moves the items out of the group containers
+  selectItems(memberIds);
+  updateAndSavePositions(`Ungrouped ${describeItems(memberIds)}`);
+  showToast(`Ungrouped ${describeItems(memberIds)}.`, 1500);
+}
+
+/**
+ * Handles Ctrl/Cmd + G (group) and Ctrl/Cmd + Shift + G (ungroup) for the selection.
+ * @param event The KeyboardEvent.
+ */
+function handleGroupKeys(event: KeyboardEvent): void {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'g') return;
+  const targetElement = event.target as HTMLElement;
+  if (targetElement && (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA' || targetElement.tagName === 'SELECT' || targetElement.isContentEditable)) {
+      return;
+  }
+  if (selectedElementIds.size === 0) return;
+
+  event.preventDefault(); // Not "find next"
+  const ids = Array.from(selectedElementIds);
+  if (event.shiftKey) {
+    ungroupItems(ids);
+  } else {
+    groupItems(ids);
+  }
+}
+
+/**
+ * Initializes the keyboard shortcuts for grouping.
+ */
+export function initializeGroupListener(): void {
+  document.addEventListener('keydown', handleGroupKeys);
+  console.log("Group listener initialized.");
+}
@@ -0,0 +1,116 @@
+import type { HistorySnapshot, ItemPositions, SavedPositionData } from './types.js';
+import { positionHistory, historyIndex, itemPositions, pages, setHistory, setHistoryListener, jumpToHistory, initializeHistory, addStateToHistory } from './state.js';
+import { applyPositions } from './initialization.js';
+import { savePositions } from './persistence.js';
+import { getCurrentProject } from './projects.js';
+
+/**
+ * The undo/redo history beyond the page: it is stored in the sessionStorage (per project), so it
+ * survives reloads of the tab, and the "History" panel lists its entries to jump to any of them.
+ */
+
+let panel: HTMLElement | null = null;
+
+function getStorageKey(): string {
+  return `layout-history:${getCurrentProject()}`;
+}
+
+/**
+ * Serializes item positions independent of property order and of the stored item IDs,
+ * to compare a stored history state with the loaded one.
+ */
+function getStateKey(positions: ItemPositions, pageList: { id: string }[]): string {
+  const items = Object.keys(positions).sort().map(id => {
+    const { id: _storedId, ...position } = positions[id] as SavedPositionData;
+    return [id, Object.entries(position).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b))];
+  });
+  return JSON.stringify({ items, pages: pageList.map(page => page.id) });
+}
+
+function storeHistory(): void {
+  try {
+    sessionStorage.setItem(getStorageKey(), JSON.stringify({ entries: positionHistory, index: historyIndex }));
+  } catch (error) {
+    console.warn("History could not be stored (sessionStorage full?):", error);
+  }
+}
+
+/**
+ * Initializes the history after the layout was loaded: continues the history stored before a reload.
+ * If the loaded layout differs from the stored current state (e.g. changed in another tab), it is added as a new entry.
+ */
+export function restoreHistory(): void {
+  let stored: { entries: HistorySnapshot[]; index: number } | null = null;
+  try {
+    stored = JSON.parse(sessionStorage.getItem(getStorageKey()) ?? 'null');
+  } catch (error) {
+    console.warn("Ignoring unreadable stored history:", error);
+  }
+  const current = stored?.entries?.[stored.index];
+  if (!stored || !current) {
+    initializeHistory(itemPositions);
+    return;
+  }
+
+  setHistory(stored.entries, stored.index);
+  if (getStateKey(current.itemPositions, current.pages) !== getStateKey(itemPositions, pages)) {
+    addStateToHistory('Loaded saved layout');
+  }
+  console.log(`Restored history with ${positionHistory.length} entries.`);
+}
+
+function renderHistoryList(): void {
+  const list = panel?.querySelector('.history-list');
+  if (!list) return;
+
+  // Newest first, like the versions panel
+  const entries = positionHistory.map((entry, index) => ({ entry, index })).reverse();
+  list.replaceChildren(...entries.map(({ entry, index }) => {
+    const item = document.createElement('li');
+    item.textContent = entry.label ?? 'Change';
+    item.classList.toggle('current', index === historyIndex);
+    item.classList.toggle('undone', index > historyIndex); // Can be redone
+    item.title = index === historyIndex ? 'Current state' : 'Go back to this state';
+    item.addEventListener('click', () => {
+      if (jumpToHistory(index)) {
+        applyPositions();
+        savePositions();
+      }
+    });
+    return item;
+  }));
+}
+
+function toggleHistoryPanel(): void {
+  if (panel?.isConnected) {
+    panel.remove();
+    panel = null;
+    return;
+  }
+  document.querySelectorAll('.toolbar-panel').forEach(other => other.remove()); // One panel at a time
+  panel = document.createElement('div');
+  panel.id = 'history-panel';
+  panel.className = 'toolbar-panel';
+  const header = document.createElement('div');
+  header.className = 'toolbar-panel-header';
+  const title = document.createElement('strong');
+  title.textContent = 'History';
+  header.appendChild(title);
+  const list = document.createElement('ul');
+  list.className = 'history-list';
+  panel.append(header, list);
+  document.body.appendChild(panel);
+  renderHistoryList();
+}
+
+/**
+ * Initializes storing the history and the "History" button of the app toolbar.
+ */
+export function initializeHistoryPanel(): void {
+  setHistoryListener(() => {
+    storeHistory();
+    renderHistoryList();
+  });
+  document.getElementById('history-button')?.addEventListener('click', toggleHistoryPanel);
+  console.log("History panel initialized.");
+}
@@ -3,6 +3,23 @@ import { initializeDragDropListeners } from './dragDrop.js';
 import { initializeWheelTransformListener, initializeModifierKeyListeners } from './wheelTransform.js'; // Updated import
 import { initializeUndoRedoListener } from './undoRedo.js';
 import { initializeFileDropListeners } from './fileDrop.js'; // Import the new file drop initializer
+import { initializeTransposeListener } from './transpose.js';
+import { initializeSelectionListeners } from './selection.js';
+import { initializePageListeners } from './pages.js';
+import { initializeProjectSwitcher } from './projects.js';
+import { initializeLiveReload } from './liveReload.js';
+import { initializeCollaboration } from './collaboration.js';
+import { initializeSnapshotPanel } from './snapshots.js';
+import { initializeHistoryPanel } from './history.js';
+import { initializeLayersPanel } from './layers.js';
+import { initializeInspector } from './inspector.js';
+import { initializeTransformHandles } from './transformHandles.js';
+import { initializeKeyboardTransformListener } from './keyboardTransform.js';
+import { initializeStackingListener } from './zOrder.js';
+import { initializeGroupListener } from './groups.js';
+import { initializeContextMenu } from './contextMenu.js';
+import { initializeClipboardListeners } from './clipboard.js';
+import { initializeConnection } from './connection.js';
 import { showToast } from '../utils.js';
 // Removed imports related to file drop as they are now in fileDrop.ts
 
@@ -15,10 +32,27 @@ function initializeDragLogic(): void {
 
     // Initialize all feature modules
     initializeDragDropListeners();
+    initializeSelectionListeners();
+    initializePageListeners();
     initializeWheelTransformListener();
     initializeUndoRedoListener();
     initializeFileDropListeners(); // Initialize the file drop listeners
     initializeModifierKeyListeners(); // Added call
+    initializeTransposeListener();
+    initializeKeyboardTransformListener();
+    initializeStackingListener();
+    initializeGroupListener();
+    initializeContextMenu();
+    initializeClipboardListeners();
+    initializeProjectSwitcher();
+    initializeLiveReload();
+    initializeCollaboration();
+    initializeSnapshotPanel();
+    initializeHistoryPanel();
+    initializeLayersPanel();
+    initializeInspector();
+    initializeTransformHandles();
+    initializeConnection(); // After the modules registered their message handlers
 
     // Load positions after setting up listeners (loadPositions calls applyPositions/initializeDefaultPositions)
     // Wait for the DOM to be fully loaded before trying to load/apply positions
@@ -1,16 +1,151 @@
-import { itemPositions, updateItemPosition, initializeHistory, getItemId } from './state.js'; // Removed clearItemPositions, added getItemId (might not be needed here)
+import { itemPositions, updateItemPosition, initializeHistory, getItemId, documentSettings, itemLoadErrors } from './state.js'; // Removed clearItemPositions, added getItemId (might not be needed here)
 import type { ItemPosition } from './types.js';
-import { parseContent } from '../parsers/index.js'; // Import the unified parser
+import { parseContent, getParseOptions } from '../parsers/index.js'; // Import the unified parser
+import type { ParsedItemData } from '../parsers/index.js';
+import { generatePageCss } from '../pageSettings.js';
+import { renderPages } from './pages.js';
+import { updateInspector } from './inspector.js';
+import { updateLayersPanel } from './layers.js';
+import { updateTransformHandles } from './transformHandles.js';
+import { getGroupDepth } from './groups.js';
+
+/**
+ * Sizes the page containers and updates the @page rule according to the document settings.
+ * The server renders the same styles into the initial HTML, this keeps them in sync after changes.
+ */
+export function applyDocumentSettings(): void {
+  let styleElement = document.getElementById('page-style');
+  if (!styleElement) {
+    styleElement = document.createElement('style');
+    styleElement.id = 'page-style';
+    document.head.appendChild(styleElement);
+  }
+  styleElement.textContent = generatePageCss(documentSettings);
+}
+
+/**
+ * Fetches the source file of an item (or uses the filepath directly for images)
+ * and parses it with the item's render options.
+ * @param id The item ID (used as filename fallback).
+ * @param pos The item's position data, must contain a filepath.
+ * @param reloadFile Bypass the browser cache (the file changed on disk).
+ * @returns The parsed data and the derived filename.
+ */
+async function loadParsedContent(id: string, pos: ItemPosition, reloadFile = false): Promise<{ parsedData: ParsedItemData; filename: string }> {
+  if (!pos.filepath) throw new Error(`Item ${id} has no filepath.`);
+
+  let content: string;
+  const isImage = pos.parser === 'image';
+  if (isImage) {
+      content = reloadFile ? `${pos.filepath}?v=${Date.now()}` : pos.filepath; // Image parser expects URL
+  } else {
+      const response = await fetch(pos.filepath, reloadFile ? { cache: 'no-store' } : undefined);
+      if (!response.ok) throw new Error(`Failed to fetch content (${response.status}): ${pos.filepath}`);
+      content = await response.text();
+  }
+
+  const filename = pos.filepath.split('/').pop() || id; // Derive filename
+  const parsedData = await parseContent(filename, content, getParseOptions(pos)); // Use the unified parser
+  return { parsedData, filename };
+}
+
+/**
+ * Re-parses the content of an existing item, e.g. after its render options or its file changed.
+ * The item container (and with it position, size and transform) is kept.
+ * @param id The item ID.
+ * @param reloadFile Fetch the file again instead of using the browser cache.
+ */
+export async function refreshItemContent(id: string, reloadFile = false): Promise<void> {
+  const element = document.getElementById(id);
+  const pos = itemPositions[id];
+  if (!element || !pos?.filepath) {
+      console.warn(`Cannot refresh content of ${id}: element or filepath missing.`);
+      return;
+  }
+
+  try {
+      const renderedOptions = JSON.stringify(getParseOptions(pos));
+      const { parsedData } = await loadParsedContent(id, pos, reloadFile);
+      // A newer refresh was started while fetching (e.g. fast wheel steps), let that one win
+      const currentPos = itemPositions[id];
+      if (!currentPos || JSON.stringify(getParseOptions(currentPos)) !== renderedOptions) return;
+      element.replaceChildren(parsedData.element);
+      element.dataset.parseOptions = renderedOptions;
+      console.log(`Refreshed content of ${id}.`);
+  } catch (error) {
+      console.error(`Failed to refresh item ${id} (${pos.filepath}):`, error);
+  }
+}
+
+/**
+ * Applies position, size, opacity and transform of an item to its element (within its current page).
+ * @param element The item element.
+ * @param pos The item's position data.
+ */
+export function applyItemStyles(element: HTMLElement, pos: ItemPosition): void {
+  // Apply position
+  element.style.left = pos.left;
+  element.style.top = pos.top;
+  element.style.position = 'absolute'; // Ensure it's positioned
+
+  // Apply stored size (width/height) only if defined in pos
+  if (pos.width !== undefined) {
+    element.style.width = pos.width;
+  } else {
+    element.style.width = ''; // Explicitly reset if not defined
+  }
+  if (pos.height !== undefined) {
+    element.style.height = pos.height;
+  } else {
+    element.style.height = ''; // Explicitly reset if not defined
+  }
+
+  // Apply stored opacity
+  element.style.opacity = pos.opacity !== undefined ? String(pos.opacity) : ''; // Reset if not defined
+
+  // Apply stored transform (rotation and scale)
+  const rotation = pos.rotation || 0;
+  const scale = pos.scale || '1';
+  element.style.transform = `rotate(${rotation}deg) scale(${scale})`;
+
+  element.classList.toggle('locked', !!pos.locked);
+  // Items in a group are dragged with the group
+  element.classList.toggle('grouped', !!pos.groupId);
+  element.classList.toggle('hidden-item', !!pos.hidden);
+
+  // Apply stored stacking order (a variable, so the CSS defaults and the dragging state still apply)
+  if (pos.zIndex !== undefined) {
+    element.style.setProperty('--item-z-index', String(pos.zIndex));
+  } else {
+    element.style.removeProperty('--item-z-index');
+  }
+}
 
 /**
  * Asynchronously applies the positions stored in the `itemPositions` state object.
+ * Renders the page containers first and removes elements of items that are no longer in the state.
  * If an element doesn't exist, it fetches its content based on `filepath`,
  * parses it using the stored `parser`, creates the element, and adds it to the page.
  * Then applies position, size, and transform styles.
  */
 export async function applyPositions(): Promise<void> {
   console.log("Applying positions:", itemPositions);
-  const itemIds = Object.keys(itemPositions);
+  renderPages(); // Page containers must match the pages state before items are placed
+
+  // Remove elements of items that are no longer in the state (e.g. after undo or a deleted page)
+  document.querySelectorAll<HTMLElement>('.draggable-item').forEach(element => {
+    if (!itemPositions[element.id]) {
+      // Items of a removed group are placed again below
+      element.querySelectorAll<HTMLElement>(':scope > .draggable-item').forEach(member => element.parentElement?.appendChild(member));
+      element.remove();
+    }
+  });
+  itemLoadErrors.forEach((_error, id) => {
+    if (!itemPositions[id]) itemLoadErrors.delete(id);
+  });
+
+  // Groups before their items, which are placed into the group containers
+  const itemIds = Object.keys(itemPositions).sort((a, b) => getGroupDepth(a) - getGroupDepth(b));
 
   for (const id of itemIds) {
     let element = document.getElementById(id) as HTMLElement | null;
@@ -22,41 +157,38 @@ export async function applyPositions(): Promise<void> {
     }
 
     // --- Create element if it doesn't exist ---
-    if (!element && pos.parser && pos.filepath) {
+    if (!element && pos.isGroup) {
+        element = document.createElement('div');
+        element.id = id;
+        element.classList.add('draggable-item', 'item-group');
+    } else if (!element && pos.parser && pos.filepath) {
         console.log(`Element ${id} not found. Creating from path: ${pos.filepath} using parser: ${pos.parser}`);
         try {
-            // 1. Fetch content (or use filepath directly for images)
-            let content: string;
-            const isImage = pos.parser === 'image';
-            if (isImage) {
-                content = pos.filepath; // Image parser expects URL
-            } else {
-                const response = await fetch(pos.filepath);
-                if (!response.ok) throw new Error(`Failed to fetch content (${response.status}): ${pos.filepath}`);
-                content = await response.text();
-            }
-
-            // 2. Parse content
-            const filename = pos.filepath.split('/').pop() || id; // Derive filename
-            const parsedData = await parseContent(filename, content); // Use the unified parser
-
-            // 3. Create container element
+            // 1. Fetch and parse content
+            const { parsedData, filename } = await loadParsedContent(id, pos);
+
+            // 2. Create container element
             element = document.createElement('div');
             element.id = id;
             element.classList.add('draggable-item');
-            element.draggable = true; // Make it draggable
             element.dataset.filename = filename;
             element.dataset.parser = pos.parser;
+            element.dataset.parseOptions = JSON.stringify(getParseOptions(pos));
             element.appendChild(parsedData.element);
+            itemLoadErrors.delete(id);
 
             // Add to DOM (initially hidden/off-screen before positioning?) - Appending later
 
         } catch (error) {
             console.error(`Failed to load and parse item ${id} (${pos.filepath}):`, error);
+            itemLoadErrors.set(id, error instanceof Error ? error.message : String(error)); // Shown in the layers panel
             // Optionally remove the faulty position from state?
             // delete itemPositions[id];
             element = null; // Ensure we don't try to style a non-existent element
         }
+    } else if (element && (element.dataset.parseOptions ?? '{}') !== JSON.stringify(getParseOptions(pos))) {
+        // Render options changed (e.g. transposition was undone), re-parse the content
+        await refreshItemContent(id);
     } else if (!element) {
         console.warn(`Element with ID ${id} not found and no parser/filepath info available. Skipping.`);
         continue; // Skip to next item if element cannot be found or created
@@ -79,38 +211,18 @@ export async function applyPositions(): Promise<void> {
         }
       }
 
-      // Append element to the correct page if it's not already there
-      if (element.parentElement !== targetPage) {
-        targetPage.appendChild(element);
-      }
-
-      // Apply position
-      element.style.left = pos.left;
-      element.style.top = pos.top;
-      element.style.position = 'absolute'; // Ensure it's positioned
-
-      // Apply stored size (width/height) only if defined in pos
-      if (pos.width !== undefined) {
-        element.style.width = pos.width;
-      } else {
-        element.style.width = ''; // Explicitly reset if not defined
-      }
-      if (pos.height !== undefined) {
-        element.style.height = pos.height;
-      } else {
-        element.style.height = ''; // Explicitly reset if not defined
+      // Append element to the correct page (or group) if it's not already there
+      const container = (pos.groupId && document.getElementById(pos.groupId)) || targetPage;
+      if (element.parentElement !== container) {
+        container.appendChild(element);
       }
 
-      // Apply stored opacity
-      element.style.opacity = pos.opacity !== undefined ? String(pos.opacity) : ''; // Reset if not defined
-
-      // Apply stored transform (rotation and scale)
-      const rotation = pos.rotation || 0;
-      const scale = pos.scale || '1';
-      element.style.transform = `rotate(${rotation}deg) scale(${scale})`;
-
+      applyItemStyles(element, pos);
     }
   } // End of loop
+  updateInspector(); // Show the applied values of the selected item
+  updateLayersPanel();
+  updateTransformHandles();
   console.log("Finished applying positions.");
 }
 
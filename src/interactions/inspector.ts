@@ -0,0 +1,255 @@
+import type { ItemPosition } from './types.js';
+import { itemPositions, pages, selectedElementIds, updateItemPosition, describeItems } from './state.js';
+import { applyPositions, applyItemStyles } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { updateTransformHandles } from './transformHandles.js';
+import { PX_PER_MM } from '../pageSettings.js';
+
+/**
+ * The property inspector: a side panel with numeric fields for the position, size and transforms
+ * of the selected item. Typing previews the value live, committing a field (Enter or leaving it)
+ * saves it as one undoable step.
+ */
+
+interface InspectorField {
+  name: string;
+  unit: string;
+  step: number;
+  min?: number;
+  max?: number;
+  optional?: boolean; // An empty field resets the property (e.g. width: auto)
+  read(pos: ItemPosition): number | undefined;
+  write(value: number | null): Partial<ItemPosition>;
+}
+
+interface InspectorRow {
+  label: string;
+  fields: InspectorField[];
+}
+
+// The values of an item before the live preview of a field, restored if the field is not committed
+interface PreviewStart {
+  id: string;
+  field: string;
+  values: Partial<ItemPosition>;
+}
+
+let panel: HTMLElement | null = null;
+let inspectedId: string | null = null;
+let previewStart: PreviewStart | null = null;
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toPx(value: number): string {
+  return `${round(value)}px`;
+}
+
+// Left and top are stored in px within the page container (including the bleed)
+const ROWS: InspectorRow[] = [
+  {
+    label: 'Left',
+    fields: [
+      { name: 'left-mm', unit: 'mm', step: 0.5, read: pos => round(parseFloat(pos.left) / PX_PER_MM, 1), write: value => ({ left: toPx(value! * PX_PER_MM) }) },
+      { name: 'left-px', unit: 'px', step: 1, read: pos => round(parseFloat(pos.left)), write: value => ({ left: toPx(value!) }) },
+    ],
+  },
+  {
+    label: 'Top',
+    fields: [
+      { name: 'top-mm', unit: 'mm', step: 0.5, read: pos => round(parseFloat(pos.top) / PX_PER_MM, 1), write: value => ({ top: toPx(value! * PX_PER_MM) }) },
+      { name: 'top-px', unit: 'px', step: 1, read: pos => round(parseFloat(pos.top)), write: value => ({ top: toPx(value!) }) },
+    ],
+  },
+  {
+    label: 'Width',
+    fields: [
+      { name: 'width', unit: 'px', step: 1, min: 1, optional: true, read: pos => pos.width ? round(parseFloat(pos.width)) : undefined, write: value => ({ width: value === null ? undefined : toPx(value) }) },
+    ],
+  },
+  {
+    label: 'Height',
+    fields: [
+      { name: 'height', unit: 'px', step: 1, min: 1, optional: true, read: pos => pos.height ? round(parseFloat(pos.height)) : undefined, write: value => ({ height: value === null ? undefined : toPx(value) }) },
+    ],
+  },
+  {
+    label: 'Scale',
+    fields: [
+      { name: 'scale', unit: '×', step: 0.05, min: 0.1, read: pos => round(parseFloat(pos.scale || '1'), 3), write: value => ({ scale: value !== 1 ? String(value) : undefined }) },
+    ],
+  },
+  {
+    label: 'Rotation',
+    fields: [
+      { name: 'rotation', unit: '°', step: 1, read: pos => round(pos.rotation || 0), write: value => ({ rotation: value! }) },
+    ],
+  },
+  {
+    label: 'Opacity',
+    fields: [
+      { name: 'opacity', unit: '', step: 0.05, min: 0, max: 1, read: pos => round(pos.opacity ?? 1), write: value => ({ opacity: value! < 1 ? value! : undefined }) },
+    ],
+  },
+];
+
+/**
+ * Parses the value of a field.
+ * @returns The number, null for an empty optional field, or undefined if the value is invalid.
+ */
+function parseFieldValue(field: InspectorField, input: HTMLInputElement): number | null | undefined {
+  if (input.value.trim() === '') return field.optional ? null : undefined;
+  const value = Number(input.value);
+  if (!Number.isFinite(value)) return undefined;
+  if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) return undefined;
+  return value;
+}
+
+/**
+ * Applies the value of a field to the inspected item (state and element), without saving.
+ * @returns True if the value was valid and applied.
+ */
+function previewField(field: InspectorField, input: HTMLInputElement): boolean {
+  const id = inspectedId;
+  if (!id || !itemPositions[id]) return false;
+  const value = parseFieldValue(field, input);
+  if (value === undefined) return false;
+
+  const update = field.write(value);
+  if (previewStart?.id !== id || previewStart.field !== field.name) {
+    const pos = itemPositions[id]!;
+    const values = Object.fromEntries(Object.keys(update).map(key => [key, pos[key as keyof ItemPosition]]));
+    previewStart = { id, field: field.name, values };
+  }
+  updateItemPosition(id, update);
+  const element = document.getElementById(id);
+  if (element) applyItemStyles(element, itemPositions[id]!);
+  updateInspector(); // Update the other unit of the same property
+  updateTransformHandles();
+  return true;
+}
+
+/**
+ * Puts back the values an item had before the preview of a field started.
+ */
+function restorePreviewStart(): void {
+  if (!previewStart || !itemPositions[previewStart.id]) return;
+  updateItemPosition(previewStart.id, previewStart.values);
+  const element = document.getElementById(previewStart.id);
+  if (element) applyItemStyles(element, itemPositions[previewStart.id]!);
+  updateTransformHandles();
+}
+
+function createFieldInput(row: InspectorRow, field: InspectorField): HTMLElement {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'inspector-input';
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.dataset.field = field.name;
+  input.step = String(field.step);
+  if (field.min !== undefined) input.min = String(field.min);
+  if (field.max !== undefined) input.max = String(field.max);
+  input.addEventListener('input', () => previewField(field, input));
+  input.addEventListener('change', () => {
+    if (inspectedId && previewField(field, input)) {
+      updateAndSavePositions(`Set ${row.label.toLowerCase()} of ${describeItems([inspectedId])}`);
+    } else {
+      restorePreviewStart(); // Invalid value, undo the preview of the last valid one
+      updateInspector(); // and show the current one again
+    }
+    previewStart = null;
+  });
+  const unit = document.createElement('span');
+  unit.textContent = field.unit;
+  wrapper.append(input, unit);
+  return wrapper;
+}
+
+function createPageSelect(): HTMLElement {
+  const select = document.createElement('select');
+  select.dataset.field = 'page';
+  select.addEventListener('change', async () => {
+    const id = inspectedId;
+    if (!id || !itemPositions[id]) return;
+    const pageIndex = parseInt(select.value, 10);
+    updateItemPosition(id, { pageIndex });
+    await applyPositions(); // Moves the element into the page container
+    updateAndSavePositions(`Moved ${describeItems([id])} to page ${pageIndex + 1}`);
+  });
+  return select;
+}
+
+function createPanel(): HTMLElement {
+  const element = document.createElement('aside');
+  element.id = 'property-inspector';
+  element.hidden = true;
+  const title = document.createElement('strong');
+  title.className = 'inspector-title';
+  const fields = document.createElement('div');
+  fields.className = 'inspector-fields';
+  for (const row of ROWS) {
+    const label = document.createElement('span');
+    label.textContent = row.label;
+    fields.append(label, ...row.fields.map(field => createFieldInput(row, field)));
+    if (row.fields.length === 1) fields.appendChild(document.createElement('span')); // Keep the grid columns
+  }
+  const pageLabel = document.createElement('span');
+  pageLabel.textContent = 'Page';
+  fields.append(pageLabel, createPageSelect());
+  element.append(title, fields);
+  return element;
+}
+
+/**
+ * Shows the values of the selected item in the inspector (hides it if nothing is selected).
+ * The field that is being edited keeps its value.
+ */
+export function updateInspector(): void {
+  if (!panel) return;
+  const selectedIds = Array.from(selectedElementIds).filter(id => itemPositions[id]);
+  panel.hidden = selectedIds.length === 0;
+  inspectedId = selectedIds.length === 1 ? selectedIds[0]! : null;
+
+  const title = panel.querySelector('.inspector-title')!;
+  const fields = panel.querySelector<HTMLElement>('.inspector-fields')!;
+  fields.hidden = inspectedId === null;
+  if (!inspectedId) {
+    title.textContent = `${selectedIds.length} items selected`;
+    return;
+  }
+
+  const pos = itemPositions[inspectedId]!;
+  const element = document.getElementById(inspectedId);
+  title.textContent = pos.locked ? `${describeItems([inspectedId])} (locked)` : describeItems([inspectedId]);
+  // Locked items can't be moved or transformed
+  fields.querySelectorAll<HTMLInputElement | HTMLSelectElement>('input, select').forEach(input => {
+    input.disabled = !!pos.locked;
+  });
+  for (const field of ROWS.flatMap(row => row.fields)) {
+    const input = fields.querySelector<HTMLInputElement>(`input[data-field="${field.name}"]`)!;
+    if (input === document.activeElement) continue;
+    const value = field.read(pos);
+    input.value = value !== undefined ? String(value) : '';
+  }
+  // Unset sizes show the rendered size
+  fields.querySelector<HTMLInputElement>('input[data-field="width"]')!.placeholder = element ? String(element.offsetWidth) : 'auto';
+  fields.querySelector<HTMLInputElement>('input[data-field="height"]')!.placeholder = element ? String(element.offsetHeight) : 'auto';
+
+  const pageSelect = fields.querySelector<HTMLSelectElement>('select[data-field="page"]')!;
+  if (pageSelect !== document.activeElement) {
+    pageSelect.replaceChildren(...pages.map((_page, index) => new Option(String(index + 1), String(index))));
+    pageSelect.value = String(pos.pageIndex ?? 0);
+  }
+}
+
+/**
+ * Creates the property inspector, it follows the selection from then on.
+ */
+export function initializeInspector(): void {
+  panel = createPanel();
+  document.body.appendChild(panel);
+  updateInspector();
+  console.log("Property inspector initialized.");
+}
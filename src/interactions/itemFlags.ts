@@ -0,0 +1,84 @@
+import { itemPositions, updateItemPosition, describeItems } from './state.js';
+import { applyItemStyles } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Flags of items that are toggled from the context menu:
+ * - locked: can't be moved, transformed or deleted, e.g. a background image
+ * - hidden: not printed or exported, shown faded in the editor
+ */
+
+type ItemFlag = 'locked' | 'hidden';
+
+const FLAG_LABELS: Record<ItemFlag, [string, string]> = {
+  locked: ['Locked', 'Unlocked'],
+  hidden: ['Hid', 'Showed'],
+};
+
+/**
+ * Sets or clears a flag of items (as one history step).
+ * @param ids The IDs of the items.
+ * @param flag The flag to change.
+ * @param value True to set, false to clear the flag.
+ */
+function setItemsFlag(ids: string[], flag: ItemFlag, value: boolean): void {
+  const changedIds = ids.filter(id => itemPositions[id] && !!itemPositions[id][flag] !== value);
+  if (changedIds.length === 0) return;
+
+  for (const id of changedIds) {
+    updateItemPosition(id, { [flag]: value || undefined });
+    const element = document.getElementById(id);
+    if (element) applyItemStyles(element, itemPositions[id]!);
+  }
+  const label = `${FLAG_LABELS[flag][value ? 0 : 1]} ${describeItems(changedIds)}`;
+  updateAndSavePositions(label);
+  showToast(`${label}.`, 1500);
+}
+
+/**
+ * Locks or unlocks items (as one history step).
+ * @param ids The IDs of the items.
+ * @param locked True to lock, false to unlock.
+ */
+export function setItemsLocked(ids: string[], locked: boolean): void {
+  setItemsFlag(ids, 'locked', locked);
+}
+
+/**
+ * Hides or shows items (as one history step).
+ * @param ids The IDs of the items.
+ * @param hidden True to hide, false to show.
+ */
+export function setItemsHidden(ids: string[], hidden: boolean): void {
+  setItemsFlag(ids, 'hidden', hidden);
+}
+
+/**
+ * Returns true if all given items are locked.
+ */
+export function areItemsLocked(ids: string[]): boolean {
+  return ids.length > 0 && ids.every(id => itemPositions[id]?.locked);
+}
+
+/**
+ * Returns true if all given items are hidden.
+ */
+export function areItemsHidden(ids: string[]): boolean {
+  return ids.length > 0 && ids.every(id => itemPositions[id]?.hidden);
+}
+
+/**
+ * Leaves out the locked items, e.g. before moving or deleting the selection.
+ * Shows a toast if some items were left out.
+ * @param ids The IDs of the items.
+ * @returns The IDs of the items that aren't locked.
+ */
+export function withoutLockedItems(ids: string[]): string[] {
+  const unlockedIds = ids.filter(id => !itemPositions[id]?.locked);
+  if (unlockedIds.length < ids.length) {
+    const lockedIds = ids.filter(id => itemPositions[id]?.locked);
+    showToast(lockedIds.length === 1 ? `${describeItems(lockedIds)} is locked.` : `${lockedIds.length} items are locked.`, 1500);
+  }
+  return unlockedIds;
+}
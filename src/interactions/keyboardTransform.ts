@@ -0,0 +1,178 @@
+import type { ItemPosition } from './types.js';
+import { itemPositions, pages, selectedElementIds, nudgeStep, updateItemPosition, describeItems } from './state.js';
+import { applyPositions, applyItemStyles } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { selectItems } from './selection.js';
+import { withoutLockedItems } from './itemFlags.js';
+import { PX_PER_MM } from '../pageSettings.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Moving and transforming the selected items with the keyboard. Repeated presses of a key
+ * form one history entry (see addStateToHistory).
+ * - Arrow keys: Move by 1px (Shift: 10px or the "nudgeStep" in mm from settings.json)
+ * - PageUp/PageDown: Move to the previous/next page
+ * - [ / ]: Rotate counter-clockwise/clockwise
+ * - + / -: Scale up/down
+ * - Tab/Shift + Tab: Select the next/previous item on the page
+ */
+
+const SMALL_NUDGE_PX = 1;
+const LARGE_NUDGE_PX = 10;
+const ROTATE_STEP = 5; // Degrees, as with the mouse wheel
+const SCALE_STEP = 0.05;
+const MIN_SCALE = 0.1;
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Updates items in the state and applies the new styles to their elements.
+ * @param ids The item IDs.
+ * @param change Returns the changed properties of an item.
+ */
+function changeItems(ids: string[], change: (id: string) => Partial<ItemPosition>): void {
+  for (const id of ids) {
+    updateItemPosition(id, change(id));
+    const element = document.getElementById(id);
+    if (element) applyItemStyles(element, itemPositions[id]!);
+  }
+}
+
+function nudgeItems(ids: string[], directionX: number, directionY: number, large: boolean): void {
+  const step = large ? (nudgeStep !== undefined ? nudgeStep * PX_PER_MM : LARGE_NUDGE_PX) : SMALL_NUDGE_PX;
+  changeItems(ids, id => ({
+    left: `${round(parseFloat(itemPositions[id]!.left) + directionX * step)}px`,
+    top: `${round(parseFloat(itemPositions[id]!.top) + directionY * step)}px`,
+  }));
+  updateAndSavePositions(`Moved ${describeItems(ids)}`, `move:${ids.join(',')}`);
+  const pos = itemPositions[ids[0]!]!;
+  showToast(`Position: ${round(parseFloat(pos.left) / PX_PER_MM, 1)} × ${round(parseFloat(pos.top) / PX_PER_MM, 1)} mm`, 1000);
+}
+
+function rotateItems(ids: string[], step: number): void {
+  changeItems(ids, id => ({ rotation: (itemPositions[id]!.rotation || 0) + step }));
+  updateAndSavePositions(`Rotated ${describeItems(ids)}`, `rotate:${ids.join(',')}`);
+  showToast(`Rotation: ${itemPositions[ids[0]!]!.rotation || 0}°`, 1000);
+}
+
+function scaleItems(ids: string[], step: number): void {
+  changeItems(ids, id => {
+    const scale = round(Math.max(MIN_SCALE, parseFloat(itemPositions[id]!.scale || '1') + step), 3);
+    return { scale: scale !== 1 ? String(scale) : undefined };
+  });
+  updateAndSavePositions(`Scaled ${describeItems(ids)}`, `scale:${ids.join(',')}`);
+  showToast(`Scale: ${parseFloat(itemPositions[ids[0]!]!.scale || '1').toFixed(2)}`, 1000);
+}
+
+async function moveItemsToPage(ids: string[], step: number): Promise<void> {
+  const targetIndexes = ids.map(id => (itemPositions[id]!.pageIndex ?? 0) + step);
+  if (targetIndexes.some(index => index < 0 || index >= pages.length)) {
+    showToast(step < 0 ? 'No previous page.' : 'No next page.', 1500);
+    return;
+  }
+
+  ids.forEach((id, i) => updateItemPosition(id, { pageIndex: targetIndexes[i] }));
+  await applyPositions(); // Moves the elements into their new page containers
+  updateAndSavePositions(`Moved ${describeItems(ids)} to page ${targetIndexes[0]! + 1}`, `page:${ids.join(',')}`);
+  document.getElementById(ids[0]!)?.scrollIntoView({ block: 'nearest' });
+  showToast(`Page ${targetIndexes[0]! + 1}`, 1000);
+}
+
+/**
+ * Returns the index of the page the keyboard selection continues on: the page of the
+ * most recently selected item, otherwise the first page in view.
+ */
+function getCurrentPageIndex(): number {
+  const lastSelectedId = Array.from(selectedElementIds).filter(id => itemPositions[id]).pop();
+  if (lastSelectedId) return itemPositions[lastSelectedId]!.pageIndex ?? 0;
+  const containers = Array.from(document.querySelectorAll<HTMLElement>('.page-container'));
+  const visibleIndex = containers.findIndex(container => container.getBoundingClientRect().bottom > 0);
+  return Math.max(0, visibleIndex);
+}
+
+/**
+ * Selects the next/previous item on the current page, in reading order (top to bottom, left to right).
+ * @param step 1 for the next item, -1 for the previous one.
+ */
+function cycleSelection(step: number): void {
+  const pageIndex = getCurrentPageIndex();
+  const pageItemIds = Object.keys(itemPositions)
+    .filter(id => (itemPositions[id]!.pageIndex ?? 0) === pageIndex && !itemPositions[id]!.groupId && document.getElementById(id))
+    .sort((a, b) => {
+      const posA = itemPositions[a]!;
+      const posB = itemPositions[b]!;
+      return parseFloat(posA.top) - parseFloat(posB.top) || parseFloat(posA.left) - parseFloat(posB.left);
+    });
+  if (pageItemIds.length === 0) {
+    showToast(`No items on page ${pageIndex + 1}.`, 1500);
+    return;
+  }
+
+  const lastSelectedId = Array.from(selectedElementIds).pop();
+  const currentIndex = lastSelectedId ? pageItemIds.indexOf(lastSelectedId) : -1;
+  const nextIndex = currentIndex === -1
+    ? (step > 0 ? 0 : pageItemIds.length - 1)
+    : (currentIndex + step + pageItemIds.length) % pageItemIds.length;
+  const nextId = pageItemIds[nextIndex]!;
+  selectItems([nextId]);
+  document.getElementById(nextId)?.scrollIntoView({ block: 'nearest' });
+  showToast(`Selected ${describeItems([nextId])}`, 1000);
+}
+
+/**
+ * Handles the keyboard shortcuts for the selected items (see the module comment).
+ * @param event The KeyboardEvent.
+ */
+function handleKeyboardTransform(event: KeyboardEvent): void {
+  const targetElement = event.target as HTMLElement;
+  if (targetElement && (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA' || targetElement.tagName === 'SELECT' || targetElement.isContentEditable)) {
+      return;
+  }
+  // Leave browser shortcuts (e.g. Ctrl + plus zooms) and Alt + Shift + arrows (transpose) alone
+  if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+  if (event.key === 'Tab') {
+    if (targetElement !== document.body) return; // Keep the focus navigation of the toolbar and panels
+    event.preventDefault();
+    cycleSelection(event.shiftKey ? -1 : 1);
+    return;
+  }
+
+  const ids = Array.from(selectedElementIds).filter(id => itemPositions[id]);
+  if (ids.length === 0) return;
+
+  const direction = ARROW_DIRECTIONS[event.key];
+  let transform: ((ids: string[]) => void) | null = null;
+  if (direction) {
+    transform = ids => nudgeItems(ids, direction[0], direction[1], event.shiftKey);
+  } else if (event.key === 'PageUp' || event.key === 'PageDown') {
+    transform = ids => moveItemsToPage(ids, event.key === 'PageUp' ? -1 : 1);
+  } else if (event.key === '[' || event.key === ']') {
+    transform = ids => rotateItems(ids, event.key === '[' ? -ROTATE_STEP : ROTATE_STEP);
+  } else if (event.key === '+' || event.key === '=' || event.key === '-') {
+    transform = ids => scaleItems(ids, event.key === '-' ? -SCALE_STEP : SCALE_STEP);
+  }
+  if (!transform) return;
+
+  event.preventDefault(); // Don't scroll
+  const movableIds = withoutLockedItems(ids);
+  if (movableIds.length > 0) transform(movableIds);
+}
+
+/**
+ * Initializes the keydown listener for moving and transforming items with the keyboard.
+ */
+export function initializeKeyboardTransformListener(): void {
+  document.addEventListener('keydown', handleKeyboardTransform);
+  console.log("Keyboard transform listener initialized.");
+}
@@ -0,0 +1,267 @@
+import { itemPositions, pages, selectedElementIds, itemLoadErrors, describeItems } from './state.js';
+import { selectItems, toggleItemSelection } from './selection.js';
+import { getStackingOrder, moveInStackingOrder } from './zOrder.js';
+import { withoutLockedItems } from './itemFlags.js';
+import { getTopLevelId } from './groups.js';
+
+/**
+ * The "Layers" panel: lists the pages and their items from top to bottom of the stacking order.
+ * The items of a group are listed indented below it.
+ * Hovering an entry highlights the item, clicking selects it (shift/ctrl/cmd: adds to the selection).
+ * Dragging entries changes the stacking order or moves the items to another page.
+ * Items whose source file couldn't be loaded (or was removed from disk) show an error badge.
+ */
+
+const DRAG_THRESHOLD_PX = 4; // Smaller mouse movements are a click
+const INDENT_PX = 14; // Per group level
+
+// An entry (or the selection) being dragged within the panel
+interface RowDrag {
+  id: string; // The entry the drag started on
+  ids: string[];
+  startY: number;
+  active: boolean; // Moved beyond the threshold
+}
+
+let panel: HTMLElement | null = null;
+let rowDrag: RowDrag | null = null;
+const collapsedPages: Set<number> = new Set();
+
+function clearHighlight(): void {
+  document.querySelectorAll('.draggable-item.layer-highlight').forEach(element => element.classList.remove('layer-highlight'));
+}
+
+function createThumbnail(id: string): HTMLElement {
+  const pos = itemPositions[id]!;
+  const thumbnail = document.createElement('span');
+  thumbnail.className = 'layer-thumbnail';
+  if (pos.filepath && (pos.parser === 'image' || pos.parser === 'svg')) {
+    const image = document.createElement('img');
+    image.src = pos.filepath;
+    image.alt = '';
+    image.loading = 'lazy';
+    thumbnail.appendChild(image);
+  } else {
+    // The beginning of the text, e.g. the song title
+    thumbnail.textContent = document.getElementById(id)?.textContent?.trim().slice(0, 40) ?? '';
+  }
+  return thumbnail;
+}
+
+function createBadge(text: string, className: string, title: string): HTMLElement {
+  const badge = document.createElement('span');
+  badge.className = `layer-badge ${className}`;
+  badge.textContent = text;
+  badge.title = title;
+  return badge;
+}
+
+/**
+ * Creates the entry of an item, followed by the entries of its items if it is a group.
+ * @param depth The number of groups the item is in.
+ */
+function createItemRows(id: string, depth: number = 0): HTMLElement[] {
+  const pos = itemPositions[id]!;
+  const row = document.createElement('li');
+  row.className = 'layer-item';
+  row.classList.toggle('layer-member', depth > 0); // Selected and dragged with its group
+  row.style.paddingLeft = `${4 + depth * INDENT_PX}px`;
+  row.dataset.id = id;
+  row.classList.toggle('selected', selectedElementIds.has(id));
+  row.classList.toggle('hidden-item', !!pos.hidden);
+
+  const name = document.createElement('span');
+  name.className = 'layer-name';
+  name.textContent = describeItems([id]);
+  name.title = pos.filepath ?? id;
+  const parser = document.createElement('span');
+  parser.className = 'layer-parser';
+  parser.textContent = pos.isGroup ? 'group' : pos.parser ?? '?';
+  row.append(createThumbnail(id), name, parser);
+
+  const loadError = itemLoadErrors.get(id);
+  if (loadError) {
+    row.appendChild(createBadge('⚠', 'layer-error', `Source could not be loaded: ${loadError}`));
+  } else if (document.getElementById(id)?.classList.contains('source-missing')) {
+    row.appendChild(createBadge('⚠', 'layer-error', 'Source file was removed from disk'));
+  }
+  if (pos.locked) row.appendChild(createBadge('🔒', 'layer-locked', 'Locked'));
+  if (pos.hidden) row.title = 'Hidden in print and export';
+
+  if (!pos.isGroup) return [row];
+  const memberIds = getStackingOrder(pos.pageIndex ?? 0, id).reverse();
+  return [row, ...memberIds.flatMap(memberId => createItemRows(memberId, depth + 1))];
+}
+
+function createPageSection(pageIndex: number): HTMLElement {
+  // Top of the stack first, like the layers of a drawing program
+  const itemIds = getStackingOrder(pageIndex).reverse();
+  const section = document.createElement('details');
+  section.className = 'layer-page';
+  section.dataset.pageIndex = String(pageIndex);
+  section.open = !collapsedPages.has(pageIndex);
+  section.addEventListener('toggle', () => {
+    if (section.open) collapsedPages.delete(pageIndex);
+    else collapsedPages.add(pageIndex);
+  });
+
+  const summary = document.createElement('summary');
+  summary.className = 'layer-page-header';
+  summary.textContent = `Page ${pageIndex + 1} (${itemIds.length} ${itemIds.length === 1 ? 'item' : 'items'})`;
+  const list = document.createElement('ul');
+  list.append(...itemIds.flatMap(id => createItemRows(id)));
+  section.append(summary, list);
+  return section;
+}
+
+function renderLayers(): void {
+  const content = panel?.querySelector('.layers-content');
+  if (!content) return;
+  clearHighlight(); // The hovered entry is replaced
+  content.replaceChildren(...pages.map((_page, index) => createPageSection(index)));
+}
+
+/**
+ * Updates the layers panel (if open) after items, the stacking order or the selection changed.
+ */
+export function updateLayersPanel(): void {
+  if (!panel?.isConnected || rowDrag) return; // Rendered after the drag
+  renderLayers();
+}
+
+function getRows(): HTMLElement[] {
+  return Array.from(panel?.querySelectorAll<HTMLElement>('.layer-item') ?? []);
+}
+
+function clearDropIndicators(): void {
+  panel?.querySelectorAll('.drop-before, .drop-after, .drop-target').forEach(element => {
+    element.classList.remove('drop-before', 'drop-after', 'drop-target');
+  });
+}
+
+/**
+ * Finds where dragged entries would be dropped: before/after an entry, or onto a page (its header).
+ * @param ids The dragged items, dropping onto one of them does nothing.
+ */
+function getDropTarget(event: MouseEvent, ids: string[]): { element: HTMLElement; indicator: 'drop-before' | 'drop-after' | 'drop-target' } | null {
+  const target = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('.layer-item:not(.layer-member), .layer-page-header');
+  if (!target || !panel?.contains(target)) return null;
+  if (target.classList.contains('layer-page-header')) return { element: target, indicator: 'drop-target' };
+  if (ids.includes(target.dataset.id!)) return null;
+  const rect = target.getBoundingClientRect();
+  return { element: target, indicator: event.clientY < rect.top + rect.height / 2 ? 'drop-before' : 'drop-after' };
+}
+
+/**
+ * Moves the dragged items to the drop target: into the stacking order of the target page.
+ */
+function dropRows(ids: string[], target: { element: HTMLElement; indicator: string }): void {
+  const section = target.element.closest<HTMLElement>('.layer-page')!;
+  const pageIndex = parseInt(section.dataset.pageIndex!, 10);
+  // The other entries of the page, top first
+  const pageIds = Array.from(section.querySelectorAll<HTMLElement>('.layer-item:not(.layer-member)'))
+    .map(row => row.dataset.id!)
+    .filter(id => !ids.includes(id));
+
+  let belowId: string | null;
+  if (target.indicator === 'drop-target') {
+    belowId = pageIds[0] ?? null; // Onto the page: on top
+  } else {
+    const targetIndex = pageIds.indexOf(target.element.dataset.id!);
+    if (targetIndex === -1) return; // A dragged entry
+    belowId = target.indicator === 'drop-before' ? pageIds[targetIndex]! : pageIds[targetIndex + 1] ?? null;
+  }
+
+  // Locked items can't be moved to another page, only be reordered on their own
+  const otherPageIds = ids.filter(id => (itemPositions[id]?.pageIndex ?? 0) !== pageIndex);
+  const movableIds = new Set(withoutLockedItems(otherPageIds));
+  moveInStackingOrder(ids.filter(id => !otherPageIds.includes(id) || movableIds.has(id)), pageIndex, belowId);
+}
+
+function handleRowMouseDown(event: MouseEvent): void {
+  const row = (event.target as Element).closest<HTMLElement>('.layer-item');
+  if (!row || event.button !== 0) return;
+  event.preventDefault(); // No text selection
+  const id = getTopLevelId(row.dataset.id!);
+  // Dragging a selected entry moves the whole selection (in the order of the list)
+  const ids = selectedElementIds.has(id)
+    ? getRows().map(other => other.dataset.id!).filter(other => selectedElementIds.has(other))
+    : [id];
+  rowDrag = { id, ids, startY: event.clientY, active: false };
+}
+
+function handleRowMouseMove(event: MouseEvent): void {
+  if (!rowDrag) return;
+  if (!rowDrag.active) {
+    if (Math.abs(event.clientY - rowDrag.startY) < DRAG_THRESHOLD_PX) return;
+    rowDrag.active = true;
+    getRows().forEach(row => row.classList.toggle('dragging', rowDrag!.ids.includes(row.dataset.id!)));
+  }
+  clearDropIndicators();
+  const target = getDropTarget(event, rowDrag.ids);
+  target?.element.classList.add(target.indicator);
+}
+
+function handleRowMouseUp(event: MouseEvent): void {
+  if (!rowDrag) return;
+  const drag = rowDrag;
+  rowDrag = null;
+
+  if (drag.active) {
+    const target = getDropTarget(event, drag.ids);
+    if (target) dropRows(drag.ids, target);
+    renderLayers(); // Removes the drag state, rendered again when the change is saved
+    return;
+  }
+
+  // A click selects the item
+  if (event.shiftKey || event.ctrlKey || event.metaKey) {
+    toggleItemSelection(drag.id);
+  } else {
+    selectItems([drag.id]);
+  }
+  document.getElementById(drag.id)?.scrollIntoView({ block: 'nearest' });
+}
+
+function handleRowHover(event: MouseEvent): void {
+  if (rowDrag?.active) return;
+  clearHighlight();
+  const row = (event.target as Element).closest<HTMLElement>('.layer-item');
+  if (row) document.getElementById(row.dataset.id!)?.classList.add('layer-highlight');
+}
+
+function toggleLayersPanel(): void {
+  if (panel?.isConnected) {
+    panel.remove();
+    panel = null;
+    clearHighlight();
+    return;
+  }
+  document.querySelectorAll('.toolbar-panel').forEach(other => other.remove()); // One panel at a time
+  panel = document.createElement('div');
+  panel.id = 'layers-panel';
+  panel.className = 'toolbar-panel';
+  const header = document.createElement('div');
+  header.className = 'toolbar-panel-header';
+  const title = document.createElement('strong');
+  title.textContent = 'Layers';
+  header.appendChild(title);
+  const content = document.createElement('div');
+  content.className = 'layers-content';
+  content.addEventListener('mousedown', handleRowMouseDown);
+  content.addEventListener('mouseover', handleRowHover);
+  content.addEventListener('mouseleave', clearHighlight);
+  panel.append(header, content);
+  document.body.appendChild(panel);
+  renderLayers();
+}
+
+/**
+ * Initializes the "Layers" button of the app toolbar and dragging entries in the panel.
+ */
+export function initializeLayersPanel(): void {
+  document.getElementById('layers-button')?.addEventListener('click', toggleLayersPanel);
+  document.addEventListener('mousemove', handleRowMouseMove);
+  document.addEventListener('mouseup', handleRowMouseUp);
+  console.log("Layers panel initialized.");
+}
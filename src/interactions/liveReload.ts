@@ -0,0 +1,60 @@
+import { itemPositions } from './state.js';
+import { refreshItemContent } from './initialization.js';
+import { onServerMessage } from './connection.js';
+import { updateLayersPanel } from './layers.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Live reload of items: the server watches the user directory and sends an event
+ * when an item's source file changes on disk (see src/fileWatcher.ts). Only the affected
+ * items are re-parsed, their container keeps position, scale, rotation and opacity.
+ */
+
+interface FileChangeEvent {
+  type: 'file';
+  change: 'changed' | 'added' | 'removed';
+  filepath: string;
+}
+
+/**
+ * Returns the IDs of the items showing a file.
+ * @param filepath The path of the file (e.g. /user/songbook/song.txt).
+ */
+function getItemIdsForFile(filepath: string): string[] {
+  return Object.keys(itemPositions).filter(id => itemPositions[id]?.filepath === filepath);
+}
+
+/**
+ * Re-parses the items of a changed file, or marks them when their file was removed.
+ * @param event The change event sent by the server.
+ */
+async function handleFileChange(event: FileChangeEvent): Promise<void> {
+  const itemIds = getItemIdsForFile(event.filepath);
+  if (itemIds.length === 0) return; // Not in the layout (e.g. a file that was just uploaded)
+
+  const filename = event.filepath.split('/').pop();
+  if (event.change === 'removed') {
+    itemIds.forEach(id => document.getElementById(id)?.classList.add('source-missing'));
+    updateLayersPanel();
+    showToast(`"${filename}" was removed from disk.`, 3000);
+    return;
+  }
+
+  for (const id of itemIds) {
+    await refreshItemContent(id, true);
+    document.getElementById(id)?.classList.remove('source-missing');
+  }
+  updateLayersPanel();
+  showToast(`Reloaded "${filename}".`, 1500);
+}
+
+/**
+ * Initializes the live reload of items whose files change on disk.
+ */
+export function initializeLiveReload(): void {
+  onServerMessage('file', (event: FileChangeEvent) => {
+    console.log(`File ${event.change} on disk: ${event.filepath}`);
+    handleFileChange(event);
+  });
+  console.log("Live reload initialized.");
+}
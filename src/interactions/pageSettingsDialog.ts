@@ -0,0 +1,121 @@
+import { documentSettings, setDocumentSettings } from './state.js';
+import { applyDocumentSettings } from './initialization.js';
+import { savePositions } from './persistence.js';
+import { PAGE_FORMATS, resolvePageSettings } from '../pageSettings.js';
+import type { DocumentSettings, PageFormat, PageOrientation } from '../pageSettings.js';
+import { showToast } from '../utils.js';
+
+/**
+ * The "Page settings" dialog: edits the page format, orientation, margins and bleed
+ * (the "document" block of settings.json) for all pages of the project.
+ */
+
+const FORMATS: PageFormat[] = [...Object.keys(PAGE_FORMATS) as PageFormat[], 'custom'];
+
+function createNumberField(form: HTMLFormElement, name: string, label: string, value: number): void {
+  const wrapper = document.createElement('label');
+  wrapper.textContent = label;
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.name = name;
+  input.min = '0';
+  input.step = '0.5';
+  input.required = true;
+  input.value = String(value);
+  wrapper.appendChild(input);
+  form.appendChild(wrapper);
+}
+
+function createSelectField(form: HTMLFormElement, name: string, label: string, options: string[], value: string): HTMLSelectElement {
+  const wrapper = document.createElement('label');
+  wrapper.textContent = label;
+  const select = document.createElement('select');
+  select.name = name;
+  select.replaceChildren(...options.map(option => new Option(option, option)));
+  select.value = value;
+  wrapper.appendChild(select);
+  form.appendChild(wrapper);
+  return select;
+}
+
+/**
+ * Reads the form into document settings (keeping settings that aren't in the form, e.g. the PDF font).
+ */
+function readForm(form: HTMLFormElement): DocumentSettings {
+  const data = new FormData(form);
+  const number = (name: string) => parseFloat(String(data.get(name)));
+  const format = data.get('format') as PageFormat;
+  const margins = { top: number('margin-top'), right: number('margin-right'), bottom: number('margin-bottom'), left: number('margin-left') };
+  const sameMargins = Object.values(margins).every(margin => margin === margins.top);
+
+  const settings: DocumentSettings = { ...documentSettings, format, orientation: data.get('orientation') as PageOrientation };
+  delete settings.width;
+  delete settings.height;
+  if (format === 'custom') {
+    settings.width = number('width');
+    settings.height = number('height');
+  }
+  settings.margins = sameMargins ? margins.top : margins;
+  settings.bleed = number('bleed');
+  if (!settings.bleed) delete settings.bleed;
+  return settings;
+}
+
+/**
+ * Opens the page settings dialog, the changes are saved when it is confirmed.
+ */
+export function openPageSettingsDialog(): void {
+  document.getElementById('page-settings-dialog')?.remove();
+  const { width, height, margins, bleed } = resolvePageSettings(documentSettings);
+
+  const dialog = document.createElement('dialog');
+  dialog.id = 'page-settings-dialog';
+  const form = document.createElement('form');
+  form.method = 'dialog';
+  const title = document.createElement('strong');
+  title.textContent = 'Page settings (all pages, in mm)';
+  form.appendChild(title);
+
+  const formatSelect = createSelectField(form, 'format', 'Format', FORMATS, documentSettings.format ?? 'A5');
+  createSelectField(form, 'orientation', 'Orientation', ['portrait', 'landscape'], documentSettings.orientation ?? (width > height ? 'landscape' : 'portrait'));
+  createNumberField(form, 'width', 'Width', width);
+  createNumberField(form, 'height', 'Height', height);
+  createNumberField(form, 'margin-top', 'Margin top', margins.top);
+  createNumberField(form, 'margin-right', 'Margin right', margins.right);
+  createNumberField(form, 'margin-bottom', 'Margin bottom', margins.bottom);
+  createNumberField(form, 'margin-left', 'Margin left', margins.left);
+  createNumberField(form, 'bleed', 'Bleed', bleed);
+
+  // Width and height only apply to the custom format
+  const updateSizeFields = () => {
+    form.querySelectorAll<HTMLInputElement>('input[name="width"], input[name="height"]').forEach(input => {
+      input.disabled = formatSelect.value !== 'custom';
+    });
+  };
+  formatSelect.addEventListener('change', updateSizeFields);
+  updateSizeFields();
+
+  const buttons = document.createElement('div');
+  buttons.className = 'dialog-buttons';
+  const cancelButton = document.createElement('button');
+  cancelButton.type = 'button';
+  cancelButton.textContent = 'Cancel';
+  cancelButton.addEventListener('click', () => dialog.close());
+  const applyButton = document.createElement('button');
+  applyButton.type = 'submit';
+  applyButton.textContent = 'Apply';
+  buttons.append(cancelButton, applyButton);
+  form.appendChild(buttons);
+
+  form.addEventListener('submit', () => {
+    setDocumentSettings(readForm(form));
+    applyDocumentSettings();
+    savePositions();
+    showToast('Page settings saved.', 2000);
+  });
+  dialog.addEventListener('close', () => dialog.remove());
+
+  dialog.appendChild(form);
+  document.body.appendChild(dialog);
+  dialog.showModal();
+}
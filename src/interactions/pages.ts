@@ -0,0 +1,307 @@
+import { pages, setPages, itemPositions, updateItemPosition, deleteItemPosition, getItemId } from './state.js';
+import type { PageEntry } from './types.js';
+import { applyPositions } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { remapCopiedGroups } from './groups.js';
+import { showToast } from '../utils.js';
+
+const DEFAULT_PAGE_COUNT = 2;
+
+/**
+ * Creates a new page entry with a unique ID.
+ */
+export function createPageEntry(): PageEntry {
+  return { id: `page_${Date.now()}_${Math.random().toString(36).substring(2, 7)}` };
+}
+
+/**
+ * Returns the index of a page container (page-<index>).
+ * @param page The page container element.
+ */
+export function getPageIndex(page: HTMLElement): number {
+  return parseInt(page.id.split('-')[1] || '0', 10);
+}
+
+/**
+ * Makes sure there are enough pages for all items (e.g. for settings.json files
+ * written before pages were stored) and at least the default number of pages.
+ */
+export function ensurePagesForItems(): void {
+  const highestIndex = Math.max(DEFAULT_PAGE_COUNT - 1, ...Object.values(itemPositions).map(pos => pos.pageIndex ?? 0));
+  if (pages.length > highestIndex) return;
+  const newPages = [...pages];
+  while (newPages.length <= highestIndex) {
+    newPages.push(createPageEntry());
+  }
+  setPages(newPages);
+}
+
+function createPageToolbar(): HTMLElement {
+  const toolbar = document.createElement('div');
+  toolbar.classList.add('page-toolbar');
+  toolbar.innerHTML = `
+    <span class="page-drag-handle" title="Drag to reorder pages">⠿</span>
+    <span class="page-number"></span>
+    <button type="button" data-page-action="insert-before" title="Insert page before">+↑</button>
+    <button type="button" data-page-action="insert-after" title="Insert page after">+↓</button>
+    <button type="button" data-page-action="duplicate" title="Duplicate page with its items">⧉</button>
+    <button type="button" data-page-action="delete" title="Delete page">✕</button>
+  `;
+  return toolbar;
+}
+
+/**
+ * Creates, removes and orders the page containers to match the `pages` state.
+ * Containers are reused by page ID, their DOM ids are renumbered (page-0, page-1, ...).
+ * Items on removed containers are parked on the first page until applyPositions places them.
+ */
+export function renderPages(): void {
+  const containers = Array.from(document.querySelectorAll<HTMLElement>('.page-container'));
+
+  // First render: adopt the containers generated by the server
+  if (pages.length === 0) {
+    setPages(containers.length ? containers.map(() => createPageEntry()) : [createPageEntry()]);
+  }
+  containers.forEach((container, index) => {
+    if (!container.dataset.pageId && pages[index]) {
+      container.dataset.pageId = pages[index]!.id;
+    }
+  });
+
+  let addPageButton = document.getElementById('add-page-button');
+  if (!addPageButton) {
+    const button = document.createElement('button');
+    button.id = 'add-page-button';
+    button.type = 'button';
+    button.dataset.pageAction = 'append';
+    button.textContent = '+ Add page';
+    (containers[containers.length - 1] ?? document.getElementById('toast-container'))?.after(button);
+    addPageButton = button;
+  }
+
+  const containersById = new Map(containers.map(container => [container.dataset.pageId, container]));
+  const usedContainers = new Set<HTMLElement>();
+  pages.forEach((page, index) => {
+    let container = containersById.get(page.id);
+    if (!container) {
+      container = document.createElement('div');
+      container.classList.add('page-container');
+      container.dataset.pageId = page.id;
+    }
+    container.id = `page-${index}`;
+    if (!container.querySelector(':scope > .page-toolbar')) {
+      container.prepend(createPageToolbar());
+    }
+    container.querySelector('.page-number')!.textContent = `${index + 1} / ${pages.length}`;
+    document.body.insertBefore(container, addPageButton); // Keeps the containers in page order
+    usedContainers.add(container);
+  });
+
+  const firstPage = document.getElementById('page-0');
+  containers.filter(container => !usedContainers.has(container)).forEach(container => {
+    container.querySelectorAll<HTMLElement>(':scope > .draggable-item').forEach(item => firstPage?.appendChild(item));
+    container.remove();
+  });
+}
+
+/**
+ * Applies a page structure change: renders the pages, places the items and records history.
+ * @param label Describes the change (history label and toast message).
+ */
+async function commitPageChange(label: string): Promise<void> {
+  await applyPositions(); // Also renders the pages
+  updateAndSavePositions(label);
+  showToast(`${label}.`, 2000);
+}
+
+/**
+ * Inserts an empty page at the given index, items on following pages move one page back.
+ * @param index The index the new page will have.
+ */
+export async function insertPage(index: number): Promise<void> {
+  const newPages = [...pages];
+  newPages.splice(index, 0, createPageEntry());
+  setPages(newPages);
+
+  for (const [id, pos] of Object.entries(itemPositions)) {
+    if ((pos.pageIndex ?? 0) >= index) {
+      updateItemPosition(id, { pageIndex: (pos.pageIndex ?? 0) + 1 });
+    }
+  }
+  await commitPageChange(`Page ${index + 1} added`);
+}
+
+/**
+ * Deletes a page. Its items are deleted too or moved to the neighbouring page.
+ * @param index The index of the page to delete.
+ * @param keepItems If true, the items are moved to the previous page (the next one for the first page).
+ */
+export async function deletePage(index: number, keepItems: boolean): Promise<void> {
+  if (pages.length <= 1) {
+    showToast("The last page can't be deleted.", 3000);
+    return;
+  }
+
+  const newPages = [...pages];
+  newPages.splice(index, 1);
+  setPages(newPages);
+
+  const targetIndex = Math.max(0, index - 1); // Index of the receiving page after the deletion
+  for (const [id, pos] of Object.entries(itemPositions)) {
+    const pageIndex = pos.pageIndex ?? 0;
+    if (pageIndex === index) {
+      if (keepItems) {
+        updateItemPosition(id, { pageIndex: targetIndex });
+      } else {
+        deleteItemPosition(id);
+      }
+    } else if (pageIndex > index) {
+      updateItemPosition(id, { pageIndex: pageIndex - 1 });
+    }
+  }
+  await commitPageChange(`Page ${index + 1} deleted`);
+}
+
+/**
+ * Inserts a copy of a page (including copies of its items) right after it.
+ * @param index The index of the page to duplicate.
+ */
+export async function duplicatePage(index: number): Promise<void> {
+  const newPages = [...pages];
+  newPages.splice(index + 1, 0, createPageEntry());
+  setPages(newPages);
+
+  const copyIds = new Map<string, string>();
+  for (const [id, pos] of Object.entries(itemPositions)) {
+    const pageIndex = pos.pageIndex ?? 0;
+    if (pageIndex > index) {
+      updateItemPosition(id, { pageIndex: pageIndex + 1 });
+    } else if (pageIndex === index) {
+      const filename = pos.filepath?.split('/').pop() || id;
+      const copyId = getItemId(filename);
+      updateItemPosition(copyId, { ...pos, pageIndex: index + 1 });
+      copyIds.set(id, copyId);
+    }
+  }
+  remapCopiedGroups(copyIds); // Copied items belong to the copies of their groups
+  await commitPageChange(`Page ${index + 1} duplicated`);
+}
+
+/**
+ * Moves a page to another position, renumbering the pageIndex of all affected items.
+ * @param fromIndex The current index of the page.
+ * @param toIndex The index the page will have afterwards.
+ */
+export async function movePage(fromIndex: number, toIndex: number): Promise<void> {
+  if (fromIndex === toIndex) return;
+
+  // Old index of each page in the new order
+  const order = pages.map((_, index) => index);
+  const [movedIndex] = order.splice(fromIndex, 1);
+  order.splice(toIndex, 0, movedIndex!);
+  setPages(order.map(oldIndex => pages[oldIndex]!));
+
+  for (const [id, pos] of Object.entries(itemPositions)) {
+    updateItemPosition(id, { pageIndex: order.indexOf(pos.pageIndex ?? 0) });
+  }
+  await commitPageChange(`Page ${fromIndex + 1} moved to position ${toIndex + 1}`);
+}
+
+/**
+ * Handles clicks on the page toolbar buttons and the "Add page" button.
+ * @param event The MouseEvent.
+ */
+function handlePageActionClick(event: MouseEvent): void {
+  const button = (event.target as HTMLElement).closest<HTMLElement>('[data-page-action]');
+  if (!button) return;
+  event.stopPropagation(); // Don't change the item selection
+
+  const page = button.closest<HTMLElement>('.page-container');
+  const index = page ? getPageIndex(page) : pages.length - 1;
+
+  switch (button.dataset.pageAction) {
+    case 'append':
+      insertPage(pages.length);
+      break;
+    case 'insert-before':
+      insertPage(index);
+      break;
+    case 'insert-after':
+      insertPage(index + 1);
+      break;
+    case 'duplicate':
+      duplicatePage(index);
+      break;
+    case 'delete': {
+      const itemCount = Object.values(itemPositions).filter(pos => (pos.pageIndex ?? 0) === index).length;
+      if (!confirm(`Delete page ${index + 1}?`)) return;
+      const neighbour = index === 0 ? 'next' : 'previous';
+      const deleteItems = itemCount > 0 && confirm(`Also delete the ${itemCount} item(s) on page ${index + 1}? (Cancel moves them to the ${neighbour} page.)`);
+      deletePage(index, !deleteItems);
+      break;
+    }
+  }
+}
+
+// --- Page Reordering (drag the handle in the page toolbar) ---
+
+let reorderSourcePage: HTMLElement | null = null;
+
+function findPageAt(clientY: number): HTMLElement | null {
+  const containers = Array.from(document.querySelectorAll<HTMLElement>('.page-container'));
+  // The page whose vertical centre is closest to the pointer
+  let closest: HTMLElement | null = null;
+  let closestDistance = Infinity;
+  for (const container of containers) {
+    const rect = container.getBoundingClientRect();
+    const distance = Math.abs(rect.top + rect.height / 2 - clientY);
+    if (distance < closestDistance) {
+      closest = container;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+function handleReorderStart(event: MouseEvent): void {
+  const handle = (event.target as HTMLElement).closest('.page-drag-handle');
+  if (!handle || event.button !== 0) return;
+  event.preventDefault(); // No text selection, no rubber band
+  event.stopPropagation();
+  reorderSourcePage = handle.closest<HTMLElement>('.page-container');
+  reorderSourcePage?.classList.add('page-reordering');
+}
+
+function handleReorderMove(event: MouseEvent): void {
+  if (!reorderSourcePage) return;
+  const targetPage = findPageAt(event.clientY);
+  document.querySelectorAll('.page-drop-target').forEach(page => page.classList.remove('page-drop-target'));
+  if (targetPage && targetPage !== reorderSourcePage) {
+    targetPage.classList.add('page-drop-target');
+  }
+}
+
+function handleReorderEnd(event: MouseEvent): void {
+  if (!reorderSourcePage) return;
+  const sourcePage = reorderSourcePage;
+  reorderSourcePage = null;
+  sourcePage.classList.remove('page-reordering');
+  document.querySelectorAll('.page-drop-target').forEach(page => page.classList.remove('page-drop-target'));
+
+  const targetPage = findPageAt(event.clientY);
+  if (targetPage && targetPage !== sourcePage) {
+    movePage(getPageIndex(sourcePage), getPageIndex(targetPage));
+  }
+}
+
+/**
+ * Initializes the listeners for the page toolbar and page reordering.
+ */
+export function initializePageListeners(): void {
+  // Capture phase, so toolbar clicks are handled before the item selection handlers
+  document.addEventListener('click', handlePageActionClick, true);
+  document.addEventListener('mousedown', handleReorderStart, true);
+  document.addEventListener('mousemove', handleReorderMove);
+  document.addEventListener('mouseup', handleReorderEnd);
+  console.log("Page listeners initialized.");
+}
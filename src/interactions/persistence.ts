@@ -1,17 +1,24 @@
 import { sanitizeFilename } from '../utils.js';
 import type { ItemPositions, SavedPositionData, ItemPosition } from './types.js';
-import { itemPositions, clearItemPositions, initializeHistory, addStateToHistory, getItemId } from './state.js';
-import { applyPositions, initializeDefaultPositions } from './initialization.js';
+import { itemPositions, changedItemIds, clearItemPositions, addStateToHistory, getItemId, snapDistance, setSnapDistance, DEFAULT_SNAP_DISTANCE, nudgeStep, setNudgeStep, documentSettings, setDocumentSettings, pages, setPages, settingsRevision, setSettingsRevision } from './state.js';
+import { showToast } from '../utils.js';
+import { renderPages, ensurePagesForItems } from './pages.js';
+import { applyPositions, initializeDefaultPositions, applyDocumentSettings } from './initialization.js';
+import { projectUrl } from './projects.js';
+import { sendLocalChanges } from './collaboration.js';
+import { restoreHistory } from './history.js';
+import { updateInspector } from './inspector.js';
+import { updateLayersPanel } from './layers.js';
+import { updateTransformHandles } from './transformHandles.js';
 
 /**
- * Saves the current item positions to the server.
- * Converts internal state (itemPositions) to the format expected by the server
- * (an array of objects, including filepath and parser).
+ * Converts the state of an item to the format stored by the server (including filepath, parser and ID).
+ * @param id The item ID.
+ * @param posData The item's state.
  */
-export function savePositions(): void {
-  const positionsToSave: SavedPositionData[] = Object.entries(itemPositions).map(([id, posData]) => {
+export function toSavedPositionData(id: string, posData: ItemPosition): SavedPositionData {
     // Create a copy to avoid modifying the original state object directly
-    const dataToSave: SavedPositionData = { ...posData };
+    const dataToSave: SavedPositionData = { ...posData, id };
 
     // Ensure essential fields exist, provide defaults if necessary (though state should be reliable)
     // No, we want to save exactly what's in the state. If left/top are undefined, they stay undefined.
@@ -28,37 +35,140 @@ export function savePositions(): void {
     if (dataToSave.scale !== undefined && dataToSave.scale === '1') {
         delete dataToSave.scale;
     }
+    if (!dataToSave.transpose) {
+        delete dataToSave.transpose;
+    }
+    if (!dataToSave.capo) {
+        delete dataToSave.capo;
+    }
     // We need filepath to reload, so ensure it's present
-    if (!dataToSave.filepath) {
+    if (!dataToSave.filepath && !dataToSave.isGroup) {
         console.warn(`Item with ID ${id} is missing filepath. It might not reload correctly.`);
-        // Optionally add the id as a fallback if filepath is crucial
-        dataToSave.id = id;
     }
 
     return dataToSave;
+}
+
+let pendingSave: Promise<void> = Promise.resolve(); // Saves run one after another, each based on the revision of the previous one
+let saveConflictShown = false;
+let delayedSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Wheel gestures fire many events per swipe, they are saved once they pause this long
+const DELAYED_SAVE_MS = 400;
+
+/**
+ * Shows that the state on the server is newer than the one the last save was based on
+ * (e.g. saved from another tab) and lets the user reload it or overwrite it with the local state.
+ * @param currentRevision The revision on the server.
+ */
+function showSaveConflict(currentRevision: number): void {
+  if (saveConflictShown) return;
+  saveConflictShown = true;
+
+  const banner = document.createElement('div');
+  banner.id = 'save-conflict';
+  banner.textContent = `The layout was changed elsewhere (revision ${currentRevision}), your changes were not saved. `;
+  const reloadButton = document.createElement('button');
+  reloadButton.textContent = 'Reload';
+  reloadButton.title = 'Discard your changes and show the saved layout';
+  const overwriteButton = document.createElement('button');
+  overwriteButton.textContent = 'Overwrite';
+  overwriteButton.title = 'Replace the saved layout with yours';
+  banner.append(reloadButton, overwriteButton);
+  document.body.appendChild(banner);
+
+  const close = () => {
+    banner.remove();
+    saveConflictShown = false;
+  };
+  reloadButton.addEventListener('click', async () => {
+    close();
+    await loadPositions();
+    showToast('Reloaded the saved layout.', 2000);
+  });
+  overwriteButton.addEventListener('click', () => {
+    close();
+    pendingSave = pendingSave.then(() => postPositions(true));
   });
+}
+
+/**
+ * Posts the whole state to the server.
+ * @param force Overwrite the saved state even if it is newer than the one the local state is based on.
+ */
+async function postPositions(force: boolean = false): Promise<void> {
+  if (saveConflictShown) return; // Resolved by the user first
 
-  fetch('/save-positions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ objects: positionsToSave }, null, 2) // Send the array wrapped in "objects"
-  })
-  .then(response => {
+  const positionsToSave = Object.entries(itemPositions).map(([id, posData]) => toSavedPositionData(id, posData));
+  try {
+    const response = await fetch(projectUrl('/save-positions'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // Send the array wrapped in "objects", the snap distance is only stored if it was changed
+      body: JSON.stringify({
+        document: documentSettings,
+        pages: pages,
+        objects: positionsToSave,
+        ...(snapDistance !== DEFAULT_SNAP_DISTANCE ? { snapDistance } : {}),
+        ...(nudgeStep !== undefined ? { nudgeStep } : {}),
+        revision: settingsRevision,
+        ...(force ? { force } : {})
+      }, null, 2)
+    });
+    if (response.status === 409) {
+      const current = await response.json();
+      console.warn(`Save rejected, the server has revision ${current.revision} (local: ${settingsRevision}).`);
+      showSaveConflict(current.revision ?? 0);
+      return;
+    }
     if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      throw new Error(`HTTP error! status: ${response.status}`);
     }
-    return response.text();
-  })
-  .then(data => console.log('Positions saved:', data))
-  .catch(error => console.error('Error saving positions:', error));
+    const result = await response.json();
+    setSettingsRevision(result.revision);
+    console.log(`Positions saved (revision ${result.revision}).`);
+  } catch (error) {
+    console.error('Error saving positions:', error);
+  }
+}
+
+/**
+ * Saves the current item positions to the server.
+ * While connected, only the changed items are sent (see collaboration.ts),
+ * otherwise the whole state is posted.
+ */
+export function savePositions(): void {
+  if (sendLocalChanges()) return;
+  changedItemIds.clear(); // Part of the posted state
+  pendingSave = pendingSave.then(() => postPositions());
 }
 
 /**
  * Updates the history stack with the current state and then saves positions.
+ * @param label Describes the change for the history, e.g. "Moved song.txt".
+ * @param mergeKey Merges repeated changes into one history entry (see addStateToHistory).
  */
-export function updateAndSavePositions(): void {
-  addStateToHistory(); // Update history first
+export function updateAndSavePositions(label: string, mergeKey?: string): void {
+  addStateToHistory(label, mergeKey); // Update history first
   savePositions();     // Then save the current state
+  updateInspector();   // Show the new values of the selected item
+  updateLayersPanel();
+  updateTransformHandles();
+}
+
+/**
+ * Like updateAndSavePositions(), but saves only once no further change followed for DELAYED_SAVE_MS,
+ * for gestures that change the state many times a second (e.g. the mouse wheel).
+ * @param label Describes the change for the history.
+ * @param mergeKey Merges the repeated changes into one history entry (see addStateToHistory).
+ */
+export function updateAndSavePositionsLater(label: string, mergeKey: string): void {
+  addStateToHistory(label, mergeKey);
+  clearTimeout(delayedSaveTimer);
+  delayedSaveTimer = setTimeout(savePositions, DELAYED_SAVE_MS);
+  updateInspector();
+  updateLayersPanel();
+  updateTransformHandles();
 }
 
 /**
@@ -69,17 +179,26 @@ export function updateAndSavePositions(): void {
  */
 export async function loadPositions(): Promise<void> {
   try {
-    const response = await fetch('/load-positions');
+    const response = await fetch(projectUrl('/load-positions'));
     if (!response.ok) {
       if (response.status === 404) {
         console.log('No saved settings found, initializing defaults.'); // Updated message
+        setSettingsRevision(0);
+        renderPages();
         initializeDefaultPositions(); // Place items initially if no file
         return; // Exit if file not found
       }
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     const settingsData = await response.json(); // This will be an object like { objects: [] }
+    setSettingsRevision(typeof settingsData.revision === 'number' ? settingsData.revision : 0);
     const loadedPositionsArray: SavedPositionData[] = settingsData.objects || []; // Access the array under "objects"
+    setSnapDistance(typeof settingsData.snapDistance === 'number' ? settingsData.snapDistance : DEFAULT_SNAP_DISTANCE);
+    setNudgeStep(typeof settingsData.nudgeStep === 'number' ? settingsData.nudgeStep : undefined);
+    setDocumentSettings(settingsData.document ?? {});
+    applyDocumentSettings(); // Page size must be set before items are placed
+    const loadedPages = Array.isArray(settingsData.pages) ? settingsData.pages : [];
+    setPages(loadedPages.filter((page: any) => page && typeof page.id === 'string'));
 
     clearItemPositions(); // Clear current state before loading
 
@@ -118,14 +237,18 @@ export async function loadPositions(): Promise<void> {
       itemPositions[itemId] = itemData as ItemPosition; // Cast might be needed if types slightly diverge
     });
 
+    // Settings from before pages were stored only have the items' pageIndex
+    ensurePagesForItems();
+
     // ApplyPositions is now async, ensure we await it
     await applyPositions();
 
-    // Initialize history with the loaded state
-    initializeHistory(itemPositions);
+    // Continue the history from before a reload, or start it with the loaded state
+    restoreHistory();
 
   } catch (error) {
     console.error('Error loading positions:', error);
+    renderPages();
     initializeDefaultPositions(); // Fallback to default placement on error
   }
 }
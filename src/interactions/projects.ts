@@ -0,0 +1,138 @@
+import { showToast } from '../utils.js';
+
+const ACTION_PREFIX = 'action:';
+
+/**
+ * Returns the ID of the open project (rendered into the page by the server).
+ */
+export function getCurrentProject(): string {
+  return document.body.dataset.project ?? 'default';
+}
+
+/**
+ * Adds the open project to a server URL, e.g. `/save-positions` -> `/save-positions?project=songbook`.
+ * @param url The server route.
+ */
+export function projectUrl(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}project=${encodeURIComponent(getCurrentProject())}`;
+}
+
+function openProject(project: string): void {
+  window.location.href = `/?project=${encodeURIComponent(project)}`;
+}
+
+/**
+ * Sends a project request (create, rename, duplicate, delete) and reports errors.
+ * @param route The server route, e.g. '/rename-project'.
+ * @param body The project and/or new name.
+ * @returns The ID of the resulting project, or null if the request failed.
+ */
+async function sendProjectRequest(route: string, body: { project?: string; name?: string }): Promise<string | null> {
+  try {
+    const response = await fetch(route, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      showToast(await response.text(), 4000);
+      return null;
+    }
+    const result = await response.json();
+    return result.project;
+  } catch (error) {
+    console.error(`Error sending ${route} request:`, error);
+    showToast(`Error: ${error instanceof Error ? error.message : error}`, 4000);
+    return null;
+  }
+}
+
+/**
+ * Runs a project action chosen in the project switcher.
+ * @param action One of 'create', 'rename', 'duplicate', 'delete'.
+ */
+async function runProjectAction(action: string): Promise<void> {
+  const current = getCurrentProject();
+  switch (action) {
+    case 'create': {
+      const name = prompt('Name of the new project:');
+      if (!name) return;
+      const project = await sendProjectRequest('/create-project', { name: name.trim() });
+      if (project) openProject(project);
+      break;
+    }
+    case 'rename': {
+      const name = prompt(`Rename project "${current}" to:`, current);
+      if (!name || name === current) return;
+      const project = await sendProjectRequest('/rename-project', { project: current, name: name.trim() });
+      if (project) openProject(project);
+      break;
+    }
+    case 'duplicate': {
+      const name = prompt(`Name of the copy of "${current}":`, `${current} copy`);
+      if (!name) return;
+      const project = await sendProjectRequest('/duplicate-project', { project: current, name: name.trim() });
+      if (project) openProject(project);
+      break;
+    }
+    case 'delete': {
+      if (!confirm(`Delete project "${current}" with all its files? This can't be undone.`)) return;
+      const project = await sendProjectRequest('/delete-project', { project: current });
+      if (project) window.location.href = '/'; // Opens the default (or first) project
+      break;
+    }
+  }
+}
+
+/**
+ * Fills the project switcher with the projects on the server and the project actions.
+ * @param select The project select element.
+ */
+async function fillProjectSelect(select: HTMLSelectElement): Promise<void> {
+  const current = getCurrentProject();
+  let projects: string[] = [];
+  try {
+    const response = await fetch('/projects');
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    projects = await response.json();
+  } catch (error) {
+    console.error('Error loading projects:', error);
+  }
+  // The open project might not have been saved yet
+  if (!projects.includes(current)) projects = [current, ...projects];
+
+  select.replaceChildren(...projects.map(project => new Option(project, project, false, project === current)));
+  const actions = document.createElement('optgroup');
+  actions.label = 'Project';
+  actions.append(
+    new Option('New project…', `${ACTION_PREFIX}create`),
+    new Option('Rename…', `${ACTION_PREFIX}rename`),
+    new Option('Duplicate…', `${ACTION_PREFIX}duplicate`),
+    new Option('Delete…', `${ACTION_PREFIX}delete`),
+  );
+  select.appendChild(actions);
+}
+
+async function handleProjectSelectChange(event: Event): Promise<void> {
+  const select = event.target as HTMLSelectElement;
+  const value = select.value;
+  select.value = getCurrentProject(); // Actions don't stay selected
+  select.blur(); // Keyboard shortcuts go to the page again
+
+  if (value.startsWith(ACTION_PREFIX)) {
+    await runProjectAction(value.slice(ACTION_PREFIX.length));
+  } else if (value !== getCurrentProject()) {
+    openProject(value);
+  }
+}
+
+/**
+ * Initializes the project switcher in the app toolbar.
+ */
+export function initializeProjectSwitcher(): void {
+  const select = document.getElementById('project-select') as HTMLSelectElement | null;
+  if (!select) return;
+  fillProjectSelect(select);
+  select.addEventListener('change', handleProjectSelectChange);
+  console.log("Project switcher initialized.");
+}
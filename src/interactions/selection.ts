@@ -0,0 +1,171 @@
+import { selectedElementIds, setSelectedElementIds, toggleSelectedElementId } from './state.js';
+import { sendSelection } from './collaboration.js';
+import { updateInspector } from './inspector.js';
+import { updateLayersPanel } from './layers.js';
+import { updateTransformHandles } from './transformHandles.js';
+
+/**
+ * Syncs the 'selected' class of all draggable items with the selection state
+ * and shows the selection to the other clients, in the property inspector, in the layers panel
+ * and with the transform handles.
+ */
+export function updateSelectionClasses(): void {
+  document.querySelectorAll<HTMLElement>('.draggable-item').forEach(element => {
+    element.classList.toggle('selected', selectedElementIds.has(element.id));
+  });
+  sendSelection();
+  updateInspector();
+  updateLayersPanel();
+  updateTransformHandles();
+}
+
+/**
+ * Selects the given items.
+ * @param ids The IDs to select.
+ * @param additive If true, the items are added to the current selection instead of replacing it.
+ */
+export function selectItems(ids: Iterable<string>, additive: boolean = false): void {
+  if (additive) {
+    for (const id of ids) {
+      selectedElementIds.add(id);
+    }
+  } else {
+    setSelectedElementIds(ids);
+  }
+  updateSelectionClasses();
+  console.log(`Selected elements: ${Array.from(selectedElementIds).join(', ') || 'none'}`);
+}
+
+/**
+ * Adds an item to the selection or removes it if already selected (shift/ctrl-click).
+ * @param id The item ID.
+ */
+export function toggleItemSelection(id: string): void {
+  toggleSelectedElementId(id);
+  updateSelectionClasses();
+  console.log(`Toggled selection of ${id}. Selected: ${selectedElementIds.size}`);
+}
+
+export function clearSelection(): void {
+  if (selectedElementIds.size === 0) return;
+  setSelectedElementIds([]);
+  updateSelectionClasses();
+  console.log("Deselected all elements.");
+}
+
+/**
+ * Returns the IDs an interaction with an item should act on:
+ * the whole selection if the item is part of it, otherwise just the item itself.
+ * @param itemId The ID of the item the user interacted with.
+ */
+export function getTargetIds(itemId: string): string[] {
+  return selectedElementIds.has(itemId) ? Array.from(selectedElementIds) : [itemId];
+}
+
+// --- Rubber-Band Selection ---
+
+interface RubberBand {
+  page: HTMLElement;
+  element: HTMLDivElement;
+  startX: number; // Client coordinates where the band was started
+  startY: number;
+  additive: boolean;
+}
+
+const minimumBandSize = 3; // px, smaller bands are treated as a click
+let activeBand: RubberBand | null = null;
+let suppressNextClick = false; // The click fired after a rubber-band selection must not deselect
+
+/**
+ * Returns true (once) if the current click event ends a rubber-band selection.
+ * Used by the click handler, which would otherwise clear the new selection.
+ */
+export function consumeRubberBandClick(): boolean {
+  const suppressed = suppressNextClick;
+  suppressNextClick = false;
+  return suppressed;
+}
+
+function getBandRect(band: RubberBand, event: MouseEvent): DOMRect {
+  const pageRect = band.page.getBoundingClientRect();
+  // Keep the band within the page it was started on
+  const x = Math.max(pageRect.left, Math.min(pageRect.right, event.clientX));
+  const y = Math.max(pageRect.top, Math.min(pageRect.bottom, event.clientY));
+  return new DOMRect(
+    Math.min(band.startX, x),
+    Math.min(band.startY, y),
+    Math.abs(x - band.startX),
+    Math.abs(y - band.startY)
+  );
+}
+
+function handleRubberBandStart(event: MouseEvent): void {
+  suppressNextClick = false; // Reset in case the last band ended without a click event
+  if (event.button !== 0) return;
+  const target = event.target as HTMLElement;
+  // Only start on the empty page area, items themselves are dragged
+  if (target.closest('.draggable-item') || target.closest('.page-toolbar')) return;
+  const page = target.closest<HTMLElement>('.page-container');
+  if (!page) return;
+
+  const element = document.createElement('div');
+  element.classList.add('rubber-band');
+  activeBand = {
+    page,
+    element,
+    startX: event.clientX,
+    startY: event.clientY,
+    additive: event.shiftKey || event.ctrlKey || event.metaKey,
+  };
+  document.body.classList.add('rubber-band-active');
+}
+
+function handleRubberBandMove(event: MouseEvent): void {
+  if (!activeBand) return;
+  const rect = getBandRect(activeBand, event);
+  if (rect.width < minimumBandSize && rect.height < minimumBandSize) return;
+
+  if (!activeBand.element.parentElement) {
+    activeBand.page.appendChild(activeBand.element);
+  }
+  const pageRect = activeBand.page.getBoundingClientRect();
+  activeBand.element.style.left = `${rect.left - pageRect.left}px`;
+  activeBand.element.style.top = `${rect.top - pageRect.top}px`;
+  activeBand.element.style.width = `${rect.width}px`;
+  activeBand.element.style.height = `${rect.height}px`;
+}
+
+function handleRubberBandEnd(event: MouseEvent): void {
+  if (!activeBand) return;
+  const band = activeBand;
+  activeBand = null;
+  document.body.classList.remove('rubber-band-active');
+
+  const wasDrawn = !!band.element.parentElement;
+  band.element.remove();
+  if (!wasDrawn) return; // Just a click on the page, handled by the click handler
+
+  const rect = getBandRect(band, event);
+  const touchedIds: string[] = [];
+  band.page.querySelectorAll<HTMLElement>(':scope > .draggable-item').forEach(element => { // Groups, not their items
+    const itemRect = element.getBoundingClientRect();
+    const touches = itemRect.left <= rect.right && itemRect.right >= rect.left &&
+      itemRect.top <= rect.bottom && itemRect.bottom >= rect.top;
+    if (touches && element.id) {
+      touchedIds.push(element.id);
+    }
+  });
+
+  selectItems(touchedIds, band.additive);
+  suppressNextClick = true;
+}
+
+/**
+ * Initializes the listeners for rubber-band selection on page containers.
+ */
+export function initializeSelectionListeners(): void {
+  document.addEventListener('mousedown', handleRubberBandStart);
+  document.addEventListener('mousemove', handleRubberBandMove);
+  document.addEventListener('mouseup', handleRubberBandEnd);
+  console.log("Selection listeners initialized.");
+}
@@ -0,0 +1,119 @@
+import { snapDistance, dragGroup } from './state.js';
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface SnapResult {
+  offset: number; // Distance to move the dragged element to reach the snap line
+  line: number; // Position of the snap line within the page
+}
+
+/**
+ * Returns the visual (rotated/scaled) bounding box of an element relative to the
+ * positioning origin of a page container (the inner edge of its border, same as style.left/top).
+ */
+function getVisualBox(element: HTMLElement, page: HTMLElement): Box {
+  const rect = element.getBoundingClientRect();
+  const pageRect = page.getBoundingClientRect();
+  return {
+    left: rect.left - pageRect.left - page.clientLeft,
+    top: rect.top - pageRect.top - page.clientTop,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+/**
+ * Finds the snap line closest to one of the given edges of the dragged element.
+ * @param edges Edge positions (start, centre, end) of the dragged element on one axis.
+ * @param lines Candidate snap lines on the same axis.
+ * @returns The closest match within the snap distance, or null.
+ */
+function findSnap(edges: number[], lines: number[]): SnapResult | null {
+  let best: SnapResult | null = null;
+  for (const edge of edges) {
+    for (const line of lines) {
+      const offset = line - edge;
+      if (Math.abs(offset) <= snapDistance && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, line };
+      }
+    }
+  }
+  return best;
+}
+
+function showGuide(page: HTMLElement, orientation: 'vertical' | 'horizontal', position: number): void {
+  const guide = document.createElement('div');
+  guide.classList.add('snap-guide', `snap-guide-${orientation}`);
+  if (orientation === 'vertical') {
+    guide.style.left = `${position}px`;
+  } else {
+    guide.style.top = `${position}px`;
+  }
+  page.appendChild(guide);
+}
+
+/**
+ * Removes all snap guide lines from the pages.
+ */
+export function clearSnapGuides(): void {
+  document.querySelectorAll('.snap-guide').forEach(guide => guide.remove());
+}
+
+/**
+ * Snaps a position of the dragged element to the page margins, the page centre lines
+ * and the edges/centres of the other items on the page, and draws guide lines for the matches.
+ * Items moved along with the dragged element (the rest of the selection) are ignored.
+ * @param element The dragged element.
+ * @param page The page container the element is dragged over.
+ * @param left The unsnapped left position (px).
+ * @param top The unsnapped top position (px).
+ * @param disabled If true (modifier held), the position is returned unchanged.
+ * @returns The snapped left/top position.
+ */
+export function snapPosition(element: HTMLElement, page: HTMLElement, left: number, top: number, disabled: boolean = false): { left: number; top: number } {
+  clearSnapGuides();
+  if (disabled || snapDistance <= 0) return { left, top };
+
+  // The visual box differs from left/top for rotated or scaled items, the difference stays the same while dragging
+  const currentPage = element.closest<HTMLElement>('.page-container') ?? page;
+  const currentBox = getVisualBox(element, currentPage);
+  const style = window.getComputedStyle(element);
+  const box: Box = {
+    left: left + currentBox.left - parseFloat(style.left || '0'),
+    top: top + currentBox.top - parseFloat(style.top || '0'),
+    width: currentBox.width,
+    height: currentBox.height,
+  };
+
+  // Page margins (padding of the page container) and centre lines
+  const pageStyle = window.getComputedStyle(page);
+  const pageWidth = page.clientWidth;
+  const pageHeight = page.clientHeight;
+  const verticalLines = [parseFloat(pageStyle.paddingLeft) || 0, pageWidth / 2, pageWidth - (parseFloat(pageStyle.paddingRight) || 0)];
+  const horizontalLines = [parseFloat(pageStyle.paddingTop) || 0, pageHeight / 2, pageHeight - (parseFloat(pageStyle.paddingBottom) || 0)];
+
+  // Edges and centres of the other items on the page
+  const movedElements = dragGroup.map(member => member.element);
+  page.querySelectorAll<HTMLElement>(':scope > .draggable-item').forEach(other => { // Not the items within groups
+    if (other === element || movedElements.includes(other)) return;
+    const otherBox = getVisualBox(other, page);
+    verticalLines.push(otherBox.left, otherBox.left + otherBox.width / 2, otherBox.left + otherBox.width);
+    horizontalLines.push(otherBox.top, otherBox.top + otherBox.height / 2, otherBox.top + otherBox.height);
+  });
+
+  const snapX = findSnap([box.left, box.left + box.width / 2, box.left + box.width], verticalLines);
+  const snapY = findSnap([box.top, box.top + box.height / 2, box.top + box.height], horizontalLines);
+
+  if (snapX) showGuide(page, 'vertical', snapX.line);
+  if (snapY) showGuide(page, 'horizontal', snapY.line);
+
+  return {
+    left: left + (snapX?.offset ?? 0),
+    top: top + (snapY?.offset ?? 0),
+  };
+}
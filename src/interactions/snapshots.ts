@@ -0,0 +1,137 @@
+import { loadPositions } from './persistence.js';
+import { projectUrl } from './projects.js';
+import { showToast } from '../utils.js';
+
+/**
+ * The "Versions" panel: lists the snapshots the server keeps of the layout (see src/snapshots.ts)
+ * and restores them.
+ */
+
+interface SnapshotInfo {
+  id: string;
+  date: string; // ISO date
+  revision?: number;
+  items: number;
+}
+
+let panel: HTMLElement | null = null;
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Sends a snapshot request and reports errors.
+ * @returns The parsed response, or null if the request failed.
+ */
+async function sendSnapshotRequest(route: string, body?: object): Promise<any | null> {
+  try {
+    const response = await fetch(projectUrl(route), body ? {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    } : { method: 'POST' });
+    if (!response.ok) {
+      showToast(await response.text(), 4000);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`Error sending ${route} request:`, error);
+    showToast(`Error: ${error instanceof Error ? error.message : error}`, 4000);
+    return null;
+  }
+}
+
+async function restoreSnapshot(snapshot: SnapshotInfo): Promise<void> {
+  if (!confirm(`Restore the layout from ${formatDate(snapshot.date)}? The current layout is kept as a version.`)) return;
+  const result = await sendSnapshotRequest('/restore-snapshot', { id: snapshot.id });
+  if (!result) return;
+
+  await loadPositions();
+  const restoredFiles: string[] = result.restoredFiles ?? [];
+  showToast(`Restored the layout from ${formatDate(snapshot.date)}${restoredFiles.length ? ` and ${restoredFiles.length} deleted file(s)` : ''}.`, 3000);
+  await renderSnapshotList();
+}
+
+async function createSnapshot(): Promise<void> {
+  const snapshot: SnapshotInfo | null = await sendSnapshotRequest('/create-snapshot');
+  if (!snapshot) return;
+  showToast(`Saved version ${formatDate(snapshot.date)}.`, 2000);
+  await renderSnapshotList();
+}
+
+/**
+ * Fills the panel with the snapshots on the server.
+ */
+async function renderSnapshotList(): Promise<void> {
+  const list = panel?.querySelector('.snapshot-list');
+  if (!list) return;
+
+  let snapshots: SnapshotInfo[];
+  try {
+    const response = await fetch(projectUrl('/snapshots'));
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    snapshots = await response.json();
+  } catch (error) {
+    console.error('Error loading snapshots:', error);
+    list.textContent = 'Versions could not be loaded.';
+    return;
+  }
+
+  if (snapshots.length === 0) {
+    list.textContent = 'No versions yet. They are saved automatically while you work.';
+    return;
+  }
+  list.replaceChildren(...snapshots.map(snapshot => {
+    const entry = document.createElement('li');
+    const label = document.createElement('span');
+    label.textContent = formatDate(snapshot.date);
+    label.title = `Revision ${snapshot.revision ?? '–'}, ${snapshot.items} item(s)`;
+    const restoreButton = document.createElement('button');
+    restoreButton.type = 'button';
+    restoreButton.textContent = 'Restore';
+    restoreButton.addEventListener('click', () => restoreSnapshot(snapshot));
+    entry.append(label, restoreButton);
+    return entry;
+  }));
+}
+
+function createPanel(): HTMLElement {
+  const element = document.createElement('div');
+  element.id = 'snapshot-panel';
+  element.className = 'toolbar-panel';
+  const header = document.createElement('div');
+  header.className = 'toolbar-panel-header';
+  const title = document.createElement('strong');
+  title.textContent = 'Versions';
+  const saveButton = document.createElement('button');
+  saveButton.type = 'button';
+  saveButton.textContent = 'Save version now';
+  saveButton.addEventListener('click', createSnapshot);
+  header.append(title, saveButton);
+  const list = document.createElement('ul');
+  list.className = 'snapshot-list';
+  element.append(header, list);
+  return element;
+}
+
+function toggleSnapshotPanel(): void {
+  if (panel?.isConnected) {
+    panel.remove();
+    panel = null;
+    return;
+  }
+  document.querySelectorAll('.toolbar-panel').forEach(other => other.remove()); // One panel at a time
+  panel = createPanel();
+  document.body.appendChild(panel);
+  renderSnapshotList();
+}
+
+/**
+ * Initializes the "Versions" button of the app toolbar.
+ */
+export function initializeSnapshotPanel(): void {
+  document.getElementById('snapshots-button')?.addEventListener('click', toggleSnapshotPanel);
+  console.log("Snapshot panel initialized.");
+}
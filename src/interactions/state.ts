@@ -1,20 +1,72 @@
-import type { ItemPositions, ItemPosition } from './types';
+import type { ItemPositions, ItemPosition, DragGroupMember, PageEntry, HistorySnapshot } from './types';
+import type { DocumentSettings } from '../pageSettings';
 
 // --- Centralized State ---
 export const itemPositions: ItemPositions = {}; // Object to store positions { itemId: { left, top, width?, pageIndex?, opacity?, rotation? } }
-export let positionHistory: ItemPositions[] = []; // Array to store snapshots of itemPositions
+export let pages: PageEntry[] = []; // Ordered list of pages, an item's pageIndex points into it
+export let positionHistory: HistorySnapshot[] = []; // Array to store snapshots of itemPositions and pages
 export let historyIndex: number = -1; // Pointer to the current state in positionHistory
+let historyListener: (() => void) | null = null; // Called after the history or the position in it changed
+let lastMergeKey: string | null = null; // Merge key of the newest history entry (see addStateToHistory)
+let lastMergeTime: number = 0;
+const MERGE_WINDOW_MS = 1500; // Changes with the same merge key within this time form one history entry
 
 export let dragOffsetX: number = 0;
 export let dragOffsetY: number = 0;
 export let draggedElement: HTMLElement | null = null;
 export let currentlyHoveredItem: HTMLElement | null = null; // Track the item currently being hovered over
-export let selectedElementId: string | null = null; // Track the currently selected element's ID
+export const selectedElementIds: Set<string> = new Set(); // Track the IDs of all currently selected elements
+export let dragGroup: DragGroupMember[] = []; // All elements moved by the current drag (the dragged element and the rest of the selection)
+export const DEFAULT_SNAP_DISTANCE = 6; // px
+export let snapDistance: number = DEFAULT_SNAP_DISTANCE; // Max distance (px) at which dragged items snap to guides, 0 disables snapping
+export let documentSettings: DocumentSettings = {}; // Page format, orientation, margins and bleed of the document
+export let settingsRevision: number = 0; // Revision of settings.json the state is based on (checked by the server when saving)
+export const changedItemIds: Set<string> = new Set(); // Items changed locally since they were last sent to the other clients
+export const itemLoadErrors: Map<string, string> = new Map(); // Items whose source failed to load (in applyPositions), with the error
+export let nudgeStep: number | undefined; // Step of shift + arrow keys in mm ("nudgeStep" in settings.json), undefined: 10px
 
 // --- State Modification Functions ---
 
-export function setSelectedElementId(id: string | null): void {
-  selectedElementId = id;
+export function setSelectedElementIds(ids: Iterable<string>): void {
+  selectedElementIds.clear();
+  for (const id of ids) {
+    selectedElementIds.add(id);
+  }
+}
+
+/**
+ * Adds an element to the selection or removes it if it is already selected.
+ */
+export function toggleSelectedElementId(id: string): void {
+  if (selectedElementIds.has(id)) {
+    selectedElementIds.delete(id);
+  } else {
+    selectedElementIds.add(id);
+  }
+}
+
+export function setDragGroup(members: DragGroupMember[]): void {
+  dragGroup = members;
+}
+
+export function setSnapDistance(distance: number): void {
+  snapDistance = Math.max(0, distance);
+}
+
+export function setDocumentSettings(settings: DocumentSettings): void {
+  documentSettings = settings;
+}
+
+export function setNudgeStep(step: number | undefined): void {
+  nudgeStep = step !== undefined && step > 0 ? step : undefined;
+}
+
+export function setSettingsRevision(revision: number): void {
+  settingsRevision = revision;
+}
+
+export function setPages(newPages: PageEntry[]): void {
+  pages = newPages;
 }
 
 export function setDraggedElement(element: HTMLElement | null): void {
@@ -32,7 +84,7 @@ export function setCurrentlyHoveredItem(element: HTMLElement | null): void {
 
 /**
  * Updates or adds position data for a specific item.
- * Cleans up default opacity (>=1) and rotation (0).
+ * Cleans up default opacity (>=1), rotation (0), transpose (0) and capo (0).
  */
 export function updateItemPosition(id: string, positionData: Partial<ItemPosition>): void {
     if (!itemPositions[id]) {
@@ -41,6 +93,7 @@ export function updateItemPosition(id: string, positionData: Partial<ItemPositio
     }
     // Merge new data with existing data
     itemPositions[id] = { ...itemPositions[id], ...positionData };
+    changedItemIds.add(id);
 
     // Clean up default values
     if (itemPositions[id].opacity !== undefined && itemPositions[id].opacity! >= 1.0) {
@@ -49,10 +102,50 @@ export function updateItemPosition(id: string, positionData: Partial<ItemPositio
     if (itemPositions[id].rotation !== undefined && itemPositions[id].rotation === 0) {
         delete itemPositions[id].rotation;
     }
+    if (itemPositions[id].transpose !== undefined && itemPositions[id].transpose === 0) {
+        delete itemPositions[id].transpose;
+    }
+    if (itemPositions[id].capo !== undefined && itemPositions[id].capo === 0) {
+        delete itemPositions[id].capo;
+    }
+
+    // The items of a group are on the page of the group
+    if (positionData.pageIndex !== undefined && itemPositions[id].isGroup) {
+        for (const [memberId, member] of Object.entries(itemPositions)) {
+            if (member.groupId === id && member.pageIndex !== positionData.pageIndex) {
+                updateItemPosition(memberId, { pageIndex: positionData.pageIndex });
+            }
+        }
+    }
 }
 
 export function deleteItemPosition(id: string): void {
     delete itemPositions[id];
+    changedItemIds.add(id);
+}
+
+/**
+ * Applies an item change made by another client: to the current state and to all history
+ * snapshots, so undo/redo only reverts local changes. The item isn't marked as changed.
+ * @param id The item ID.
+ * @param position The new item data, or null if the item was deleted.
+ */
+export function applyRemoteItemChange(id: string, position: ItemPosition | null): void {
+    for (const positions of [itemPositions, ...positionHistory.map(snapshot => snapshot.itemPositions)]) {
+        if (position) {
+            positions[id] = JSON.parse(JSON.stringify(position));
+        } else {
+            delete positions[id];
+        }
+    }
+}
+
+/**
+ * Applies a page list changed by another client to the current state and all history snapshots.
+ */
+export function applyRemotePages(newPages: PageEntry[]): void {
+    pages = newPages;
+    positionHistory.forEach(snapshot => snapshot.pages = JSON.parse(JSON.stringify(newPages)));
 }
 
 export function clearItemPositions(): void {
@@ -63,6 +156,19 @@ export function getItemPosition(id: string): ItemPosition | undefined {
     return itemPositions[id];
 }
 
+/**
+ * Describes items for messages and history labels: the filename of a single item (the size of a group), otherwise the count.
+ * @param ids The item IDs.
+ */
+export function describeItems(ids: string[]): string {
+    if (ids.length !== 1) return `${ids.length} items`;
+    if (itemPositions[ids[0]!]?.isGroup) {
+        const memberCount = Object.values(itemPositions).filter(pos => pos.groupId === ids[0]).length;
+        return `group of ${memberCount} items`;
+    }
+    return itemPositions[ids[0]!]?.filepath?.split('/').pop() || ids[0]!;
+}
+
 /**
  * Generates a unique ID for a draggable item based on its filename.
  * Replaces non-alphanumeric characters (excluding spaces and periods) with underscores and adds a timestamp.
@@ -74,18 +180,74 @@ export function getItemId(filename: string): string {
     const sanitized = filename.replace(/[^a-zA-Z0-9. ]/g, '_');
     // Add timestamp for uniqueness (simple approach)
     const timestamp = Date.now();
-    return `${sanitized}_${timestamp}`;
+    let id = `${sanitized}_${timestamp}`;
+    // Several items can be created within the same millisecond (e.g. when duplicating a page)
+    let counter = 1;
+    while (itemPositions[id]) {
+        id = `${sanitized}_${timestamp}_${counter++}`;
+    }
+    return id;
 }
 
 // --- History Management ---
 
+/**
+ * Creates a deep copy of the current item positions and pages for the history.
+ */
+function createSnapshot(label: string): HistorySnapshot {
+    return JSON.parse(JSON.stringify({ itemPositions, pages, label }));
+}
+
+/**
+ * Sets the function called after the history or the position in it changed (e.g. to store and show it).
+ */
+export function setHistoryListener(listener: (() => void) | null): void {
+    historyListener = listener;
+}
+
+/**
+ * Replaces the current item positions and pages with (a deep copy of) a history snapshot.
+ */
+function restoreSnapshot(snapshot: HistorySnapshot): HistorySnapshot {
+    // IMPORTANT: deep copy to avoid modifying history
+    const restored: HistorySnapshot = JSON.parse(JSON.stringify(snapshot));
+
+    // Items that differ between the current and the restored state changed
+    for (const id of new Set([...Object.keys(itemPositions), ...Object.keys(restored.itemPositions)])) {
+        if (JSON.stringify(itemPositions[id]) !== JSON.stringify(restored.itemPositions[id])) {
+            changedItemIds.add(id);
+        }
+    }
+
+    // Clear current itemPositions and assign the restored state
+    clearItemPositions();
+    Object.assign(itemPositions, restored.itemPositions);
+    pages = restored.pages;
+    return restored;
+}
+
 /**
  * Adds the current state to the history stack.
  * Clears future history if branching off from an undo point.
+ * @param label Describes the operation that led to the state, e.g. "Moved song.txt".
+ * @param mergeKey Repeated changes (e.g. key presses) with the same key replace the newest entry
+ *                 instead of adding one, if they follow each other within MERGE_WINDOW_MS.
  */
-export function addStateToHistory(): void {
+export function addStateToHistory(label: string, mergeKey?: string): void {
     // Create a deep copy of the current state for the history
-    const currentState = JSON.parse(JSON.stringify(itemPositions));
+    const currentState = createSnapshot(label);
+
+    const now = Date.now();
+    const merge = mergeKey !== undefined && mergeKey === lastMergeKey && now - lastMergeTime < MERGE_WINDOW_MS &&
+        historyIndex > 0 && historyIndex === positionHistory.length - 1;
+    lastMergeKey = mergeKey ?? null;
+    lastMergeTime = now;
+    if (merge) {
+        positionHistory[historyIndex] = currentState;
+        console.log(`History entry ${historyIndex} updated (${label}).`);
+        historyListener?.();
+        return;
+    }
 
     // If we undo and then make a new change, clear the 'future' history
     if (historyIndex < positionHistory.length - 1) {
@@ -103,23 +265,22 @@ export function addStateToHistory(): void {
         historyIndex--; // Adjust index
     }
     console.log(`History updated. Index: ${historyIndex}, Size: ${positionHistory.length}`);
+    historyListener?.();
 }
 
 /**
  * Restores the previous state from history.
  * Returns the restored state or null if no history.
  */
-export function undoHistory(): ItemPositions | null {
+export function undoHistory(): HistorySnapshot | null {
+    lastMergeKey = null; // The next change starts a new entry
     if (historyIndex > 0) {
         historyIndex--;
-        // Restore the previous state - IMPORTANT: deep copy to avoid modifying history
-        const previousState = JSON.parse(JSON.stringify(positionHistory[historyIndex]));
-
-        // Clear current itemPositions and assign the restored state
-        clearItemPositions();
-        Object.assign(itemPositions, previousState);
+        // Restore the previous state
+        const previousState = restoreSnapshot(positionHistory[historyIndex]!);
 
         console.log(`Rolled back to history index: ${historyIndex}`);
+        historyListener?.();
         return previousState;
     } else {
         console.log("No previous state in history to undo.");
@@ -131,17 +292,15 @@ export function undoHistory(): ItemPositions | null {
  * Restores the next state from history (redo).
  * Returns the restored state or null if at the end of history.
  */
-export function redoHistory(): ItemPositions | null {
+export function redoHistory(): HistorySnapshot | null {
+    lastMergeKey = null; // The next change starts a new entry
     if (historyIndex < positionHistory.length - 1) {
         historyIndex++;
-        // Restore the next state - IMPORTANT: deep copy
-        const nextState = JSON.parse(JSON.stringify(positionHistory[historyIndex]));
-
-        // Clear current itemPositions and assign the restored state
-        clearItemPositions();
-        Object.assign(itemPositions, nextState);
+        // Restore the next state
+        const nextState = restoreSnapshot(positionHistory[historyIndex]!);
 
         console.log(`Rolled forward to history index: ${historyIndex}`);
+        historyListener?.();
         return nextState;
     } else {
         console.log("No future state in history to redo.");
@@ -150,10 +309,37 @@ export function redoHistory(): ItemPositions | null {
 }
 
 /**
- * Initializes the history with the given state.
+ * Restores the state at any position in the history (undoing or redoing several steps at once).
+ * Returns the restored state or null if the index is out of range.
  */
-export function initializeHistory(initialState: ItemPositions): void {
-    positionHistory = [JSON.parse(JSON.stringify(initialState))];
+export function jumpToHistory(index: number): HistorySnapshot | null {
+    const snapshot = positionHistory[index];
+    if (!snapshot || index === historyIndex) return null;
+    lastMergeKey = null;
+    historyIndex = index;
+    const restoredState = restoreSnapshot(snapshot);
+    console.log(`Jumped to history index: ${historyIndex}`);
+    historyListener?.();
+    return restoredState;
+}
+
+/**
+ * Initializes the history with the given state (and the current pages).
+ */
+export function initializeHistory(initialState: ItemPositions, label: string = 'Opened layout'): void {
+    lastMergeKey = null;
+    positionHistory = [JSON.parse(JSON.stringify({ itemPositions: initialState, pages, label }))];
     historyIndex = 0;
     console.log("History initialized.");
+    historyListener?.();
+}
+
+/**
+ * Replaces the history, e.g. with one stored before a reload. The state itself isn't changed.
+ */
+export function setHistory(entries: HistorySnapshot[], index: number): void {
+    lastMergeKey = null;
+    positionHistory = entries;
+    historyIndex = Math.max(0, Math.min(index, entries.length - 1));
+    historyListener?.();
 }
@@ -0,0 +1,241 @@
+import type { ItemPosition } from './types.js';
+import { itemPositions, selectedElementIds, updateItemPosition, describeItems } from './state.js';
+import { applyItemStyles } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { updateInspector } from './inspector.js';
+
+/**
+ * Handles around the selected item (if exactly one unlocked item is selected):
+ * - Corner handles: scale proportionally, the opposite corner stays in place
+ * - Left/right handles: change the width (e.g. of HTML text boxes), the opposite edge stays in place
+ * - Handle above the item: rotate around the centre (shift: in 15° steps)
+ * Each gesture is one undoable step. Pointer events, so the handles work with touch too.
+ */
+
+type HandleType = 'nw' | 'ne' | 'se' | 'sw' | 'e' | 'w' | 'rotate';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A gesture on a handle, in page coordinates (px within the page container)
+interface HandleGesture {
+  id: string;
+  handle: HandleType;
+  pointerId: number;
+  page: HTMLElement;
+  width: number; // Layout size of the item (without transforms)
+  height: number;
+  scale: number; // When the gesture started
+  radians: number;
+  anchor: Point; // The corner or edge that stays in place, or the centre for rotation
+  changed: boolean;
+}
+
+const MIN_SCALE = 0.1; // Same as the wheel
+const MIN_WIDTH_PX = 20;
+const ROTATION_SNAP_DEG = 15;
+
+// Direction of the handle from the centre of the item (in item coordinates)
+const HANDLE_DIRECTIONS: Record<Exclude<HandleType, 'rotate'>, Point> = {
+  nw: { x: -1, y: -1 },
+  ne: { x: 1, y: -1 },
+  se: { x: 1, y: 1 },
+  sw: { x: -1, y: 1 },
+  e: { x: 1, y: 0 },
+  w: { x: -1, y: 0 },
+};
+
+const GESTURE_LABELS: Record<'corner' | 'edge' | 'rotate', string> = {
+  corner: 'Scaled',
+  edge: 'Resized',
+  rotate: 'Rotated',
+};
+
+let frame: HTMLElement | null = null;
+let gesture: HandleGesture | null = null;
+let observedElement: HTMLElement | null = null;
+const resizeObserver = new ResizeObserver(() => updateTransformHandles()); // Content changes, e.g. transposing
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Rotates a vector by an angle (clockwise on screen, like CSS)
+function rotate(point: Point, radians: number): Point {
+  return {
+    x: point.x * Math.cos(radians) - point.y * Math.sin(radians),
+    y: point.x * Math.sin(radians) + point.y * Math.cos(radians),
+  };
+}
+
+function getGestureKind(handle: HandleType): 'corner' | 'edge' | 'rotate' {
+  if (handle === 'rotate') return 'rotate';
+  return handle === 'e' || handle === 'w' ? 'edge' : 'corner';
+}
+
+/**
+ * Converts the position of a pointer event to page coordinates.
+ */
+function toPagePoint(event: PointerEvent, page: HTMLElement): Point {
+  const rect = page.getBoundingClientRect();
+  return { x: event.clientX - rect.left - page.clientLeft, y: event.clientY - rect.top - page.clientTop };
+}
+
+function createFrame(): HTMLElement {
+  const element = document.createElement('div');
+  element.className = 'transform-handles';
+  for (const handle of [...Object.keys(HANDLE_DIRECTIONS), 'rotate'] as HandleType[]) {
+    const handleElement = document.createElement('div');
+    handleElement.className = 'transform-handle';
+    handleElement.dataset.handle = handle;
+    handleElement.addEventListener('pointerdown', handlePointerDown);
+    handleElement.addEventListener('pointermove', handlePointerMove);
+    handleElement.addEventListener('pointerup', handlePointerUp);
+    handleElement.addEventListener('pointercancel', handlePointerUp);
+    handleElement.addEventListener('click', event => event.stopPropagation()); // Not a click on the page (shift + click would deselect)
+    element.appendChild(handleElement);
+  }
+  return element;
+}
+
+/**
+ * Returns the item the handles are shown for: the only selected item, if it can be transformed.
+ */
+function getHandleTarget(): HTMLElement | null {
+  if (selectedElementIds.size !== 1) return null;
+  const [id] = selectedElementIds;
+  const pos = itemPositions[id!];
+  const element = document.getElementById(id!);
+  if (!pos || pos.locked || !element?.isConnected) return null;
+  return element;
+}
+
+/**
+ * Places the handles around the selected item (or hides them).
+ * Called after the selection or the position of items changed.
+ */
+export function updateTransformHandles(): void {
+  if (!frame) return;
+  const element = gesture ? document.getElementById(gesture.id) : getHandleTarget();
+  if (observedElement !== element) {
+    if (observedElement) resizeObserver.unobserve(observedElement);
+    if (element) resizeObserver.observe(element);
+    observedElement = element;
+  }
+  const page = element?.parentElement;
+  if (!element || !page) {
+    frame.remove();
+    return;
+  }
+
+  const pos = itemPositions[element.id]!;
+  const scale = parseFloat(pos.scale || '1');
+  const width = element.offsetWidth * scale;
+  const height = element.offsetHeight * scale;
+  // The frame has the visual size of the item, rotated around the same centre
+  frame.style.left = `${element.offsetLeft + (element.offsetWidth - width) / 2}px`;
+  frame.style.top = `${element.offsetTop + (element.offsetHeight - height) / 2}px`;
+  frame.style.width = `${width}px`;
+  frame.style.height = `${height}px`;
+  frame.style.transform = `rotate(${pos.rotation || 0}deg)`;
+  frame.classList.toggle('group-handles', !!pos.isGroup); // The width of a group is the size of its items
+  if (frame.parentElement !== page) page.appendChild(frame);
+}
+
+function handlePointerDown(event: PointerEvent): void {
+  const handleElement = event.currentTarget as HTMLElement;
+  const element = getHandleTarget();
+  const page = element?.parentElement;
+  if (!element || !page || gesture || event.button !== 0) return;
+  event.preventDefault(); // No text selection and no rubber band
+  handleElement.setPointerCapture(event.pointerId);
+
+  const pos = itemPositions[element.id]!;
+  const handle = handleElement.dataset.handle as HandleType;
+  const width = element.offsetWidth;
+  const height = element.offsetHeight;
+  const scale = parseFloat(pos.scale || '1');
+  const radians = (pos.rotation || 0) * Math.PI / 180;
+  const center = { x: parseFloat(pos.left) + width / 2, y: parseFloat(pos.top) + height / 2 };
+
+  let anchor = center;
+  if (handle !== 'rotate') {
+    // The opposite corner or edge
+    const direction = HANDLE_DIRECTIONS[handle];
+    const offset = rotate({ x: -direction.x * width / 2 * scale, y: -direction.y * height / 2 * scale }, radians);
+    anchor = { x: center.x + offset.x, y: center.y + offset.y };
+  }
+  gesture = { id: element.id, handle, pointerId: event.pointerId, page, width, height, scale, radians, anchor, changed: false };
+  document.body.classList.add('transforming');
+}
+
+/**
+ * Computes the new position of the item for the pointer position of the gesture.
+ */
+function getGestureUpdate(current: HandleGesture, point: Point, snap: boolean): Partial<ItemPosition> {
+  const { handle, anchor, width, height, scale, radians } = current;
+  if (handle === 'rotate') {
+    // The handle is above the item: pointing up is the unrotated state
+    let degrees = Math.atan2(point.y - anchor.y, point.x - anchor.x) * 180 / Math.PI + 90;
+    if (snap) degrees = Math.round(degrees / ROTATION_SNAP_DEG) * ROTATION_SNAP_DEG;
+    degrees = ((degrees + 180) % 360 + 360) % 360 - 180; // -180..180
+    return { rotation: round(degrees, 1) };
+  }
+
+  const direction = HANDLE_DIRECTIONS[handle];
+  const offset = rotate({ x: point.x - anchor.x, y: point.y - anchor.y }, -radians); // From the anchor, in item coordinates
+  let newScale = scale;
+  let newWidth = width;
+  if (getGestureKind(handle) === 'corner') {
+    // Projection onto the diagonal through the anchor
+    newScale = (offset.x * direction.x * width + offset.y * direction.y * height) / (width * width + height * height);
+    newScale = Math.max(MIN_SCALE, round(newScale, 3));
+  } else {
+    newWidth = Math.max(MIN_WIDTH_PX, round(offset.x * direction.x / scale));
+  }
+
+  // The centre moves so the anchor stays in place
+  const centerOffset = rotate({ x: direction.x * newWidth / 2 * newScale, y: direction.y * height / 2 * newScale }, radians);
+  const update: Partial<ItemPosition> = {
+    left: `${round(anchor.x + centerOffset.x - newWidth / 2)}px`,
+    top: `${round(anchor.y + centerOffset.y - height / 2)}px`,
+  };
+  if (newScale !== scale) update.scale = newScale !== 1 ? String(newScale) : undefined;
+  if (newWidth !== width) update.width = `${newWidth}px`;
+  return update;
+}
+
+function handlePointerMove(event: PointerEvent): void {
+  if (!gesture || event.pointerId !== gesture.pointerId) return;
+  const element = document.getElementById(gesture.id);
+  if (!element || !itemPositions[gesture.id]) return;
+
+  updateItemPosition(gesture.id, getGestureUpdate(gesture, toPagePoint(event, gesture.page), event.shiftKey));
+  applyItemStyles(element, itemPositions[gesture.id]!);
+  gesture.changed = true;
+  updateTransformHandles();
+  updateInspector(); // Shows the values while dragging
+}
+
+function handlePointerUp(event: PointerEvent): void {
+  if (!gesture || event.pointerId !== gesture.pointerId) return;
+  const { id, handle, changed } = gesture;
+  gesture = null;
+  document.body.classList.remove('transforming');
+  if (changed && itemPositions[id]) {
+    updateAndSavePositions(`${GESTURE_LABELS[getGestureKind(handle)]} ${describeItems([id])}`);
+  }
+  updateTransformHandles();
+}
+
+/**
+ * Creates the handles, they follow the selection from then on.
+ */
+export function initializeTransformHandles(): void {
+  frame = createFrame();
+  updateTransformHandles();
+  console.log("Transform handles initialized.");
+}
@@ -0,0 +1,154 @@
+import { updateItemPosition, getItemPosition, selectedElementIds, describeItems } from './state.js';
+import { updateAndSavePositions, updateAndSavePositionsLater } from './persistence.js';
+import { refreshItemContent } from './initialization.js';
+import { transposeChord, getChordKey, type Accidentals } from '../parsers/chords.js';
+import { showToast } from '../utils.js';
+
+const CHORD_PARSERS = ['chord', 'chordpro']; // Parsers that render transposable chords
+const MAX_CAPO = 12;
+
+/**
+ * Checks whether an item renders chords that can be transposed.
+ * @param element The draggable item element.
+ */
+export function isChordItem(element: HTMLElement): boolean {
+  return CHORD_PARSERS.includes(element.dataset.parser || '');
+}
+
+/**
+ * Builds the toast message naming the (sounding) key of a song after transposing.
+ * The key is guessed from the first chord of the song.
+ * @param element The re-rendered draggable item.
+ * @param transpose The item's transposition in semitones.
+ * @param capo The item's capo fret.
+ */
+function describeKey(element: HTMLElement, transpose: number, capo: number): string {
+  const transposeText = `${transpose > 0 ? '+' : ''}${transpose}`;
+  const firstChord = element.querySelector('.chord')?.textContent;
+  const shapeKey = firstChord ? getChordKey(firstChord) : null;
+  if (!firstChord || !shapeKey) {
+    return `Transpose: ${transposeText}${capo ? `, Capo ${capo}` : ''}`;
+  }
+
+  // Chords are rendered as shapes relative to the capo, add it back to get the sounding key
+  const accidentals = getItemPosition(element.id)?.accidentals;
+  const soundingKey = getChordKey(transposeChord(firstChord, capo, accidentals)) ?? shapeKey;
+  if (!capo) {
+    return `Key: ${soundingKey} (${transposeText})`;
+  }
+  return `Key: ${soundingKey} (${transposeText}), Capo ${capo}: play ${shapeKey} shapes`;
+}
+
+/**
+ * Shifts the chords of song items and/or moves their capo, re-renders them,
+ * records the change in history (one step for all items) and saves.
+ * Items that are no songs are skipped.
+ * @param itemIds The IDs of the items (usually the selection).
+ * @param transposeStep Semitones to add to the transposition.
+ * @param capoStep Frets to add to the capo position.
+ * @param saveLater Save once the gesture pauses (mouse wheel), instead of right away.
+ */
+export async function shiftItemChords(itemIds: string[], transposeStep: number, capoStep: number = 0, saveLater: boolean = false): Promise<void> {
+  const songElements = itemIds
+    .map(id => document.getElementById(id))
+    .filter((element): element is HTMLElement => element !== null && isChordItem(element));
+
+  if (songElements.length === 0) {
+    showToast("Only songs can be transposed.", 2000);
+    return;
+  }
+
+  let lastMessage = '';
+  for (const element of songElements) {
+    const currentPosition = getItemPosition(element.id);
+    if (!currentPosition) continue;
+
+    // Transposing by an octave gives the same chords, keep the value readable
+    const transpose = ((currentPosition.transpose ?? 0) + transposeStep) % 12;
+    const capo = Math.max(0, Math.min(MAX_CAPO, (currentPosition.capo ?? 0) + capoStep));
+
+    updateItemPosition(element.id, { transpose, capo });
+    await refreshItemContent(element.id);
+    lastMessage = describeKey(element, transpose, capo);
+  }
+  const songIds = songElements.map(element => element.id);
+  const label = transposeStep ? `Transposed ${describeItems(songIds)}` : `Moved capo of ${describeItems(songIds)}`;
+  // Repeated steps on the same songs are one history entry
+  const mergeKey = `${transposeStep ? 'transpose' : 'capo'}:${songIds.join(',')}`;
+  if (saveLater) {
+    updateAndSavePositionsLater(label, mergeKey);
+  } else {
+    updateAndSavePositions(label, mergeKey); // Update history and save
+  }
+
+  // With several songs selected, the keys differ, so only the count is reported
+  showToast(songElements.length === 1 ? lastMessage : `Transposed ${songElements.length} songs`, 1500);
+}
+
+/**
+ * Returns the song items among the given items.
+ * @param itemIds The IDs of the items.
+ */
+export function getChordItemIds(itemIds: string[]): string[] {
+  return itemIds.filter(id => {
+    const element = document.getElementById(id);
+    return element !== null && isChordItem(element);
+  });
+}
+
+/**
+ * Sets the preferred spelling (sharps or flats) of the chords of song items, re-renders them,
+ * records the change in history (one step for all items) and saves.
+ * Items that are no songs are skipped.
+ * @param itemIds The IDs of the items (usually the selection).
+ * @param accidentals The preferred spelling.
+ */
+export async function setItemAccidentals(itemIds: string[], accidentals: Accidentals): Promise<void> {
+  const songIds = getChordItemIds(itemIds);
+  if (songIds.length === 0) {
+    showToast("Only songs have chords to spell.", 2000);
+    return;
+  }
+
+  for (const id of songIds) {
+    updateItemPosition(id, { accidentals });
+    await refreshItemContent(id);
+  }
+  updateAndSavePositions(`Spelled chords of ${describeItems(songIds)} with ${accidentals}s`);
+}
+
+/**
+ * Handles keyboard shortcuts for the selected songs:
+ * - Alt + Shift + ArrowUp/ArrowDown: Transpose up/down a semitone
+ * - Alt + Shift + ArrowRight/ArrowLeft: Move the capo up/down a fret
+ * @param event The KeyboardEvent.
+ */
+function handleTransposeKeys(event: KeyboardEvent): void {
+  if (selectedElementIds.size === 0 || !event.altKey || !event.shiftKey) return;
+
+  const targetElement = event.target as HTMLElement;
+  if (targetElement && (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA' || targetElement.isContentEditable)) {
+      return;
+  }
+
+  const steps: Record<string, [number, number]> = {
+    ArrowUp: [1, 0],
+    ArrowDown: [-1, 0],
+    ArrowRight: [0, 1],
+    ArrowLeft: [0, -1],
+  };
+  const step = steps[event.key];
+  if (!step) return;
+
+  event.preventDefault();
+  shiftItemChords(Array.from(selectedElementIds), step[0], step[1]);
+}
+
+/**
+ * Initializes the keyboard listener for transposing songs.
+ * (The wheel gesture lives in wheelTransform.ts together with the other wheel transforms.)
+ */
+export function initializeTransposeListener(): void {
+  document.addEventListener('keydown', handleTransposeKeys);
+  console.log("Transpose listener initialized.");
+}
@@ -1,3 +1,5 @@
+import type { DocumentSettings } from '../pageSettings';
+
 export interface ItemPosition {
   left: string; // e.g., '100px'
   top: string;  // e.g., '50px'
@@ -7,14 +9,34 @@ export interface ItemPosition {
   opacity?: number; // e.g., 0.5, 1
   scale?: string; // e.g., '1.2', '0.8'
   rotation?: number; // e.g., 45, -10 (degrees)
+  zIndex?: number; // Stacking order within the page, higher on top (default: images 5, other items 10)
+  locked?: boolean; // Can't be moved, transformed or deleted
+  hidden?: boolean; // Not printed or exported, faded in the editor
+  isGroup?: boolean; // A group of items (see groups.ts), has no file; width and height are the size of its items
+  groupId?: string; // The group the item is in, left/top are relative to the group
   parser?: string; // e.g., 'chord', 'image', 'svg'
   filepath?: string; // Relative path to the source file (used for loading)
+  transpose?: number; // e.g., 2, -3 (semitones, chord items only)
+  capo?: number; // e.g., 2 (fret, chord items only)
+  accidentals?: 'sharp' | 'flat'; // Preferred spelling of transposed chords
 }
 
 export interface ItemPositions {
   [itemId: string]: ItemPosition;
 }
 
+// A page of the document, stored in order in the "pages" list of settings.json.
+export interface PageEntry {
+  id: string; // Stable identifier (the DOM id page-<index> changes when pages are reordered)
+}
+
+// A state in the undo/redo history.
+export interface HistorySnapshot {
+  itemPositions: ItemPositions;
+  pages: PageEntry[];
+  label: string; // The operation that led to this state, e.g. "Moved song.txt"
+}
+
 // SavedPositionData might become redundant if ItemPosition holds everything,
 // but let's keep it for now in case of future distinctions.
 // Ensure it aligns with ItemPosition.
@@ -22,3 +44,36 @@ export interface SavedPositionData extends ItemPosition {
   id?: string; // ID might be explicitly saved or derived from filename
   // All other properties are inherited from ItemPosition
 }
+
+// An element moved together with the dragged element during a group drag.
+export interface DragGroupMember {
+  element: HTMLElement;
+  startLeft: number; // Left position (px) within its page when the drag started
+  startTop: number;  // Top position (px) within its page when the drag started
+  startPage: HTMLElement; // Page container the element was on when the drag started
+}
+
+// Version of an item (or of the page list) when editing with several clients:
+// Lamport clock with the client ID as tie-breaker, the newest change wins.
+export interface ChangeVersion {
+  clock: number;
+  clientId: string;
+}
+
+// Another client editing the same project.
+export interface RemotePeer {
+  clientId: string;
+  color: string; // Colour its selection is shown in
+  ids: string[]; // Selected item IDs
+}
+
+// Messages exchanged over the websocket to edit a project together (see collaboration.ts).
+export type CollaborationMessage =
+  | { type: 'welcome'; clientId: string; color: string; clock: number; peers: RemotePeer[] }
+  | { type: 'item'; id: string; position: SavedPositionData | null; version: ChangeVersion } // null: deleted
+  | { type: 'pages'; pages: PageEntry[]; version: ChangeVersion }
+  | { type: 'document'; document: DocumentSettings; version: ChangeVersion } // Page setup
+  | { type: 'selection'; ids: string[]; clientId?: string; color?: string } // Client and colour are set by the server
+  | { type: 'leave'; clientId: string }
+  | { type: 'revision'; revision: number } // settings.json was written with the changes of the clients
+  | { type: 'reload'; revision: number; clock: number }; // settings.json was replaced (a snapshot was restored), changes up to the clock are ignored
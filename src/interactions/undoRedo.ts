@@ -3,12 +3,18 @@ import { applyPositions } from './initialization.js';
 import { savePositions } from './persistence.js'; // Need to save after undo/redo
 
 /**
- * Handles keydown events specifically for Undo (Ctrl+Z) and Redo (Ctrl+Y).
+ * Handles keydown events specifically for Undo (Ctrl+Z) and Redo (Ctrl+Shift+Z or Ctrl+Y),
+ * with Cmd instead of Ctrl on macOS keyboards.
  * @param event The KeyboardEvent.
  */
 function handleUndoRedoKeys(event: KeyboardEvent): void {
+  const target = event.target as HTMLElement;
+  if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return; // Keep text undo in fields
+
+  const modifier = event.ctrlKey || event.metaKey;
+  const key = event.key.toLowerCase(); // 'Z' with Shift
   // --- Undo ---
-  if (event.ctrlKey && event.key === 'z') {
+  if (modifier && key === 'z' && !event.shiftKey) {
     event.preventDefault(); // Prevent default browser undo action
     console.log("Undo triggered (Ctrl+Z)");
 
@@ -19,9 +25,9 @@ function handleUndoRedoKeys(event: KeyboardEvent): void {
     }
   }
   // --- Redo ---
-  else if (event.ctrlKey && event.key === 'y') {
+  else if (modifier && (key === 'y' || (key === 'z' && event.shiftKey))) {
     event.preventDefault(); // Prevent default browser redo action
-    console.log("Redo triggered (Ctrl+Y)");
+    console.log("Redo triggered (Ctrl+Shift+Z / Ctrl+Y)");
 
     const restoredState = redoHistory();
     if (restoredState) {
@@ -0,0 +1,11 @@
+import type { ChangeVersion } from './types.js';
+
+/**
+ * Compares two change versions (shared by the server and the clients, so they resolve
+ * concurrent edits the same way).
+ * @returns True if `version` is newer than `other` (or there is no other version).
+ */
+export function isNewerVersion(version: ChangeVersion, other?: ChangeVersion): boolean {
+  if (!other) return true;
+  return version.clock !== other.clock ? version.clock > other.clock : version.clientId > other.clientId;
+}
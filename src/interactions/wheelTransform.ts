@@ -1,32 +1,19 @@
-import { updateItemPosition, getItemPosition } from './state.js';
-import { updateAndSavePositions } from './persistence.js';
+import { updateItemPosition, getItemPosition, describeItems } from './state.js';
+import { updateAndSavePositions, updateAndSavePositionsLater } from './persistence.js';
 import { showToast } from '../utils.js'; // Import showToast
+import { shiftItemChords, isChordItem } from './transpose.js';
+import { getTargetIds } from './selection.js';
+import { withoutLockedItems } from './itemFlags.js';
+import { findItemElement } from './groups.js';
 
 /**
- * Handles wheel events on draggable items for scaling, opacity, and rotation adjustments.
- * - Shift + Wheel: Scale width
- * - Ctrl + Wheel: Adjust opacity
- * - Alt + Wheel: Adjust rotation
- * @param event The WheelEvent.
+ * Applies one wheel step (opacity, scale or rotation, depending on the modifier key) to a single item.
+ * @param targetItem The draggable item to transform.
+ * @param event The WheelEvent (for modifier keys and direction).
+ * @returns A description of the new value for the toast, or null if no modifier was pressed.
  */
-function handleWheelTransform(event: WheelEvent): void {
-  const targetItem = (event.target as Element)?.closest<HTMLElement>('.draggable-item');
-  if (!targetItem) return; // Exit if not on a draggable item
-
+function applyWheelStep(targetItem: HTMLElement, event: WheelEvent): string | null {
   const itemId = targetItem.id;
-  if (!itemId) {
-      console.warn("Wheel event on draggable item without ID.", targetItem);
-      return;
-  }
-
-  const image = targetItem.querySelector('.draggable-image');
-  const svgContent = targetItem.querySelector('.embedded-svg-content');
-  // const isTransformable = image || svgContent; // Check if item contains image or SVG
-
-  // // Only act with Shift/Ctrl/Alt on items containing an image or SVG for scaling/opacity/rotation
-  // // Commented out: Allow transform attempts on any draggable item when modifier key is pressed
-  // if (!isTransformable && (event.shiftKey || event.ctrlKey || event.altKey)) return;
-
   const parentPage = targetItem.closest<HTMLElement>('.page-container');
   const pageIndex = parentPage ? parseInt(parentPage.id.split('-')[1] || '0', 10) : 0;
 
@@ -41,12 +28,11 @@ function handleWheelTransform(event: WheelEvent): void {
       currentPosition = getItemPosition(itemId)!; // Get the newly created position
   }
 
-  let needsSave = false;
+  let message: string | null = null;
   let updatedPositionData: Partial<typeof currentPosition> = {};
 
   if (event.shiftKey) {
     // --- Opacity Adjustment ---
-    event.preventDefault(); // Prevent default browser zoom on Ctrl+Scroll
     const opacityStep = 0.05;
     let currentOpacity = targetItem.style.opacity !== '' ? parseFloat(targetItem.style.opacity) : 1.0;
 
@@ -55,12 +41,10 @@ function handleWheelTransform(event: WheelEvent): void {
 
     targetItem.style.opacity = currentOpacity < 1.0 ? String(currentOpacity) : ''; // Set style, use empty for 1
     updatedPositionData.opacity = currentOpacity < 1.0 ? currentOpacity : undefined; // Store value, undefined if 1
-    needsSave = true;
-    showToast(`Opacity: ${currentOpacity.toFixed(2)}`, 1000); // Show toast
+    message = `Opacity: ${currentOpacity.toFixed(2)}`;
 
   } else if (event.ctrlKey) {
     // --- Scaling Adjustment (using transform: scale) ---
-    event.preventDefault(); // Prevent default horizontal scroll on Shift+Scroll
     const scaleStep = 0.05; // Adjust scale by 5% per step
     let currentScale = parseFloat(currentPosition?.scale || '1'); // Get current scale from state
 
@@ -75,14 +59,11 @@ function handleWheelTransform(event: WheelEvent): void {
     targetItem.style.transform = `rotate(${currentRotation}deg) scale(${newScaleStr})`;
 
     updatedPositionData.scale = newScaleStr !== '1' ? newScaleStr : undefined; // Store value, undefined if 1
-    needsSave = true;
-    showToast(`Scale: ${currentScale.toFixed(2)}`, 1000); // Show toast
+    message = `Scale: ${currentScale.toFixed(2)}`;
 
   } else if (event.altKey) {
     // --- Rotation Adjustment ---
-    event.preventDefault(); // Prevent default browser actions
     const rotateStep = 5; // Degrees per step
-    let currentRotation = currentPosition?.rotation || 0; // Get current from state or default 0
 
     const newRotation = (currentPosition?.rotation || 0) + (event.deltaY < 0 ? rotateStep : -rotateStep);
     // Optional: Normalize rotation % 360
@@ -95,20 +76,87 @@ function handleWheelTransform(event: WheelEvent): void {
     targetItem.style.transform = `rotate(${newRotation}deg) scale(${currentScale})`;
 
     updatedPositionData.rotation = newRotation !== 0 ? newRotation : undefined; // Store value, undefined if 0
-    needsSave = true;
-    showToast(`Rotation: ${newRotation}°`, 1000); // Show toast
+    message = `Rotation: ${newRotation}°`;
   }
-  // If none of Ctrl, Shift, Alt is pressed, do nothing and allow default scroll
 
-  if (needsSave) {
+  if (message) {
     // Update common position info only if a change occurred
     updatedPositionData.left = targetItem.style.left;
     updatedPositionData.top = targetItem.style.top;
     updatedPositionData.pageIndex = pageIndex;
 
     updateItemPosition(itemId, updatedPositionData); // Update the central state
-    updateAndSavePositions(); // Update history and save
   }
+  return message;
+}
+
+/**
+ * Handles wheel events on draggable items for scaling, opacity, and rotation adjustments.
+ * If the item is part of the selection, all selected items are transformed (as one history step).
+ * - Shift + Wheel: Adjust opacity
+ * - Ctrl + Wheel: Scale
+ * - Alt + Wheel: Adjust rotation
+ * - Shift + Alt + Wheel: Transpose chords (songs only)
+ * @param event The WheelEvent.
+ */
+function handleWheelTransform(event: WheelEvent): void {
+  const targetItem = findItemElement(event.target);
+  if (!targetItem) return; // Exit if not on a draggable item
+
+  const itemId = targetItem.id;
+  if (!itemId) {
+      console.warn("Wheel event on draggable item without ID.", targetItem);
+      return;
+  }
+
+  if (event.shiftKey && event.altKey && isChordItem(targetItem)) {
+    // --- Transposition (a semitone per wheel step) ---
+    event.preventDefault();
+    // Some browsers report Shift + Wheel as horizontal scrolling
+    const delta = event.deltaY || event.deltaX;
+    shiftItemChords(getTargetIds(itemId), delta < 0 ? 1 : -1, 0, true);
+    return;
+  }
+
+  // If none of Ctrl, Shift, Alt is pressed, do nothing and allow default scroll
+  if (!event.shiftKey && !event.ctrlKey && !event.altKey) return;
+  event.preventDefault(); // Prevent browser zoom (Ctrl), horizontal scroll (Shift) and other default actions
+
+  let toastMessage: string | null = null;
+  const targetIds = withoutLockedItems(getTargetIds(itemId));
+  for (const id of targetIds) {
+    const element = document.getElementById(id);
+    if (!element) continue;
+    const message = applyWheelStep(element, event);
+    if (id === itemId || toastMessage === null) toastMessage = message; // Report the value of the item under the cursor (if it isn't locked)
+  }
+
+  if (toastMessage) {
+    const [action, kind] = event.shiftKey ? ['Changed opacity of', 'opacity'] : event.ctrlKey ? ['Scaled', 'scale'] : ['Rotated', 'rotate'];
+    // One history entry and one save per swipe (for the whole selection)
+    updateAndSavePositionsLater(`${action} ${describeItems(targetIds)}`, `${kind}:${targetIds.join(',')}`);
+    showToast(toastMessage, 1000); // Show toast
+  }
+}
+
+/**
+ * Resets rotation, scale and opacity of items (as one history step).
+ * @param ids The IDs of the items.
+ */
+export function resetItemTransforms(ids: string[]): void {
+  ids = withoutLockedItems(ids);
+  if (ids.length === 0) return;
+  for (const id of ids) {
+    if (!getItemPosition(id)) continue;
+    updateItemPosition(id, { rotation: undefined, scale: undefined, opacity: undefined });
+    const element = document.getElementById(id);
+    if (element) {
+      element.style.transform = 'rotate(0deg) scale(1)';
+      element.style.opacity = '';
+    }
+  }
+  updateAndSavePositions(`Reset transform of ${describeItems(ids)}`);
+  showToast('Transform reset.', 1000);
 }
 
 /**
@@ -0,0 +1,160 @@
+import type { ItemPosition } from './types.js';
+import { itemPositions, selectedElementIds, updateItemPosition, describeItems } from './state.js';
+import { applyPositions, applyItemStyles } from './initialization.js';
+import { updateAndSavePositions } from './persistence.js';
+import { showToast } from '../utils.js';
+
+/**
+ * Stacking order of the items on a page. Items without a stored zIndex stack as in the CSS
+ * (images behind the other items, otherwise in DOM order). Changing the order numbers all
+ * items of the page, so the stored zIndex values reflect the visible order.
+ */
+
+export type StackingOperation = 'forward' | 'backward' | 'front' | 'back';
+
+// As in base-style.css and extra-style.css
+const IMAGE_Z_INDEX = 5;
+const ITEM_Z_INDEX = 10;
+
+const OPERATION_LABELS: Record<StackingOperation, string> = {
+  forward: 'Brought forward',
+  backward: 'Sent backward',
+  front: 'Brought to front',
+  back: 'Sent to back',
+};
+
+function getZIndex(pos: ItemPosition): number {
+  return pos.zIndex ?? (pos.parser === 'image' ? IMAGE_Z_INDEX : ITEM_Z_INDEX);
+}
+
+/**
+ * Lists the items of a page (or of a group on it) from bottom to top.
+ * @param pageIndex The page.
+ * @param groupId The group, omitted for the items directly on the page.
+ */
+export function getStackingOrder(pageIndex: number, groupId?: string): string[] {
+  const container = document.getElementById(groupId ?? `page-${pageIndex}`);
+  const domOrder = Array.from(container?.querySelectorAll<HTMLElement>(':scope > .draggable-item') ?? []).map(element => element.id);
+  return Object.keys(itemPositions)
+    .filter(id => (itemPositions[id]!.pageIndex ?? 0) === pageIndex && itemPositions[id]!.groupId === groupId)
+    .sort((a, b) => getZIndex(itemPositions[a]!) - getZIndex(itemPositions[b]!) || domOrder.indexOf(a) - domOrder.indexOf(b));
+}
+
+/**
+ * Numbers items in the given order (the state and the elements).
+ * @param order Item IDs from bottom to top.
+ * @returns True if the stored order changed.
+ */
+export function applyStackingOrder(order: string[]): boolean {
+  let changed = false;
+  order.forEach((id, index) => {
+    const zIndex = index + 1;
+    if (itemPositions[id]!.zIndex === zIndex) return;
+    updateItemPosition(id, { zIndex });
+    const element = document.getElementById(id);
+    if (element) applyItemStyles(element, itemPositions[id]!);
+    changed = true;
+  });
+  return changed;
+}
+
+/**
+ * Moves the given items within a stacking order, keeping their order among each other.
+ * @returns The new order (bottom to top).
+ */
+function reorder(order: string[], ids: Set<string>, operation: StackingOperation): string[] {
+  const moved = order.filter(id => ids.has(id));
+  const others = order.filter(id => !ids.has(id));
+  if (operation === 'front') return [...others, ...moved];
+  if (operation === 'back') return [...moved, ...others];
+
+  // One step: swap each moved item with the neighbour above/below it
+  const result = [...order];
+  if (operation === 'forward') {
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (ids.has(result[i]!) && !ids.has(result[i + 1]!)) [result[i], result[i + 1]] = [result[i + 1]!, result[i]!];
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (ids.has(result[i]!) && !ids.has(result[i - 1]!)) [result[i], result[i - 1]] = [result[i - 1]!, result[i]!];
+    }
+  }
+  return result;
+}
+
+/**
+ * Changes the stacking order of items (on each of their pages) and records it in the history.
+ * @param itemIds The items to move, usually the selection.
+ * @param operation One step up/down or to the top/bottom of the page.
+ */
+export function changeStackingOrder(itemIds: string[], operation: StackingOperation): void {
+  const ids = new Set(itemIds.filter(id => itemPositions[id]));
+  if (ids.size === 0) return;
+
+  const pageIndexes = new Set(Array.from(ids, id => itemPositions[id]!.pageIndex ?? 0));
+  let changed = false;
+  for (const pageIndex of pageIndexes) {
+    changed = applyStackingOrder(reorder(getStackingOrder(pageIndex), ids, operation)) || changed;
+  }
+  if (!changed) return;
+
+  const label = `${OPERATION_LABELS[operation]} ${describeItems(Array.from(ids))}`;
+  // Repeated steps up or down form one history entry
+  updateAndSavePositions(label, operation === 'forward' || operation === 'backward' ? `stack:${Array.from(ids).join(',')}` : undefined);
+  showToast(`${OPERATION_LABELS[operation]}.`, 1000);
+}
+
+/**
+ * Moves items to a position in the stacking order of a page, e.g. when dragged in the layers panel.
+ * Items from other pages are moved to that page.
+ * @param itemIds The items to move, from top to bottom.
+ * @param pageIndex The target page.
+ * @param belowId The item the moved items are placed directly above, null for the bottom of the page.
+ */
+export async function moveInStackingOrder(itemIds: string[], pageIndex: number, belowId: string | null): Promise<void> {
+  const ids = itemIds.filter(id => itemPositions[id]);
+  if (ids.length === 0) return;
+
+  const moved = new Set(ids);
+  const order = getStackingOrder(pageIndex).filter(id => !moved.has(id));
+  order.splice(belowId ? order.indexOf(belowId) + 1 : 0, 0, ...[...ids].reverse());
+
+  const movedToPageIds = ids.filter(id => (itemPositions[id]!.pageIndex ?? 0) !== pageIndex);
+  movedToPageIds.forEach(id => updateItemPosition(id, { pageIndex }));
+  const orderChanged = applyStackingOrder(order);
+  if (movedToPageIds.length === 0 && !orderChanged) return;
+
+  const pageChanged = movedToPageIds.length > 0;
+  if (pageChanged) await applyPositions(); // Moves the elements into their new page container
+  updateAndSavePositions(pageChanged ? `Moved ${describeItems(ids)} to page ${pageIndex + 1}` : `Reordered ${describeItems(ids)}`);
+}
+
+/**
+ * Handles the keyboard shortcuts for the stacking order of the selected items:
+ * - Ctrl/Cmd + ]: Bring forward, with Shift: to front
+ * - Ctrl/Cmd + [: Send backward, with Shift: to back
+ * @param event The KeyboardEvent.
+ */
+function handleStackingKeys(event: KeyboardEvent): void {
+  if (selectedElementIds.size === 0 || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+  const targetElement = event.target as HTMLElement;
+  if (targetElement && (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA' || targetElement.isContentEditable)) {
+      return;
+  }
+
+  // The code instead of the key, Shift turns the brackets into braces
+  if (event.code !== 'BracketRight' && event.code !== 'BracketLeft') return;
+  event.preventDefault();
+  const raise = event.code === 'BracketRight';
+  const operation: StackingOperation = event.shiftKey ? (raise ? 'front' : 'back') : (raise ? 'forward' : 'backward');
+  changeStackingOrder(Array.from(selectedElementIds), operation);
+}
+
+/**
+ * Initializes the keyboard shortcuts for the stacking order.
+ */
+export function initializeStackingListener(): void {
+  document.addEventListener('keydown', handleStackingKeys);
+  console.log("Stacking order listener initialized.");
+}
@@ -0,0 +1,126 @@
+/**
+ * Page setup shared by the server (initial HTML) and the client (after loading settings).
+ * All lengths are in millimetres.
+ */
+
+export type PageFormat = 'A3' | 'A4' | 'A5' | 'A6' | 'Letter' | 'Legal' | 'custom';
+export type PageOrientation = 'portrait' | 'landscape';
+
+export interface PageMargins {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+// The "document" block in settings.json
+export interface DocumentSettings {
+  format?: PageFormat; // Defaults to A5
+  orientation?: PageOrientation; // Defaults to portrait (custom formats: as given by width/height)
+  width?: number; // Only used for the 'custom' format
+  height?: number; // Only used for the 'custom' format
+  margins?: number | PageMargins; // A single value for all sides or per side, defaults to 10
+  bleed?: number; // Extra area around the trimmed page, defaults to 0
+  pdfFont?: string; // TrueType font in the user directory embedded in PDF exports, e.g. 'fonts/Comfortaa-Regular.ttf' (defaults to Helvetica)
+}
+
+export interface ResolvedPageSettings {
+  width: number; // Trimmed page width (without bleed)
+  height: number; // Trimmed page height (without bleed)
+  margins: Required<PageMargins>;
+  bleed: number;
+}
+
+// Portrait sizes of the supported formats
+export const PAGE_FORMATS: Record<Exclude<PageFormat, 'custom'>, { width: number; height: number }> = {
+  A3: { width: 297, height: 420 },
+  A4: { width: 210, height: 297 },
+  A5: { width: 148, height: 210 },
+  A6: { width: 105, height: 148 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 },
+};
+
+// CSS px per millimetre (CSS defines 96px per inch)
+export const PX_PER_MM = 96 / 25.4;
+
+const DEFAULT_FORMAT = 'A5';
+const DEFAULT_MARGIN = 10;
+
+/**
+ * Fills in defaults and calculates the page dimensions for the given settings.
+ * @param settings The document settings (may be empty or partially filled).
+ */
+export function resolvePageSettings(settings: DocumentSettings = {}): ResolvedPageSettings {
+  let { width, height } = PAGE_FORMATS[DEFAULT_FORMAT];
+  if (settings.format === 'custom') {
+    if (settings.width && settings.height) {
+      width = settings.width;
+      height = settings.height;
+    } else {
+      console.warn(`Custom page format needs width and height. Using ${DEFAULT_FORMAT}.`);
+    }
+  } else if (settings.format && PAGE_FORMATS[settings.format]) {
+    ({ width, height } = PAGE_FORMATS[settings.format]);
+  }
+
+  // Formats are defined in portrait, a custom format keeps its own orientation unless one is given
+  const isLandscape = settings.orientation ? settings.orientation === 'landscape' : width > height;
+  if (isLandscape !== width > height) {
+    [width, height] = [height, width];
+  }
+
+  const margins = typeof settings.margins === 'number'
+    ? { top: settings.margins, right: settings.margins, bottom: settings.margins, left: settings.margins }
+    : {
+        top: settings.margins?.top ?? DEFAULT_MARGIN,
+        right: settings.margins?.right ?? DEFAULT_MARGIN,
+        bottom: settings.margins?.bottom ?? DEFAULT_MARGIN,
+        left: settings.margins?.left ?? DEFAULT_MARGIN,
+      };
+
+  return { width, height, margins, bleed: Math.max(0, settings.bleed ?? 0) };
+}
+
+/**
+ * Generates the CSS that sizes the page containers and the matching @page rule for printing.
+ * Page containers include the bleed, margins are measured from the trimmed edge.
+ * @param settings The document settings.
+ */
+export function generatePageCss(settings: DocumentSettings = {}): string {
+  const { width, height, margins, bleed } = resolvePageSettings(settings);
+  const paperWidth = width + 2 * bleed;
+  const paperHeight = height + 2 * bleed;
+
+  let css = `:root {
+    --page-width: ${paperWidth}mm;
+    --page-height: ${paperHeight}mm;
+    --page-margin-top: ${margins.top + bleed}mm;
+    --page-margin-right: ${margins.right + bleed}mm;
+    --page-margin-bottom: ${margins.bottom + bleed}mm;
+    --page-margin-left: ${margins.left + bleed}mm;
+    --page-bleed: ${bleed}mm;
+}
+
+@page {
+    size: ${paperWidth}mm ${paperHeight}mm;
+    margin: 0;
+}
+`;
+  if (bleed > 0) {
+    // Show where the page will be trimmed
+    css += `
+@media screen {
+    .page-container::after {
+        content: "";
+        position: absolute;
+        inset: var(--page-bleed);
+        outline: 1px dashed rgba(0, 0, 0, 0.25);
+        pointer-events: none;
+        z-index: 1;
+    }
+}
+`;
+  }
+  return css;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { getSongLines, renderSongHtml } from './chordParser';
+
+// Renders a song without its title, as the HTML of the song container
+function renderBody(content: string): string {
+  return renderSongHtml(getSongLines(content, 'song.txt').slice(1));
+}
+
+describe('chord sheets in the "chord line / lyrics line" format render as before', () => {
+  test('a lyrics line starting with a section name stays lyrics', () => {
+    const lines = getSongLines('C              G\nBridge over troubled water', 'song.txt').slice(1);
+    expect(lines).toEqual([{ type: 'lyrics', lyrics: 'Bridge over troubled water', chordMap: new Map([[0, 'C'], [15, 'G']]) }]);
+    expect(renderBody('C              G\nBridge over troubled water')).not.toContain('section-header');
+  });
+
+  test('a short lyrics line made of chord names stays lyrics', () => {
+    for (const lyrics of ['A day', 'Am I']) {
+      const lines = getSongLines(`G    D\n${lyrics}`, 'song.txt').slice(1);
+      expect(lines).toEqual([{ type: 'lyrics', lyrics, chordMap: new Map([[0, 'G'], [5, 'D']]) }]);
+    }
+  });
+
+  test('a lyrics line ending with a colon stays lyrics', () => {
+    const lines = getSongLines('And then he said:', 'song.txt');
+    expect(lines[1]).toEqual({ type: 'lyrics', lyrics: 'And then he said:', chordMap: new Map() });
+  });
+
+  test('a chord line followed by a blank line is one line', () => {
+    const lines = getSongLines('Am   F\n\nC\nla la', 'song.txt').slice(1);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({ type: 'lyrics', lyrics: '', chordMap: new Map([[0, 'Am'], [5, 'F']]) });
+  });
+
+  test('section names in brackets or with a colon are headers', () => {
+    expect(getSongLines('[Chorus]', 'song.txt')[1]).toEqual({ type: 'header', text: 'Chorus' });
+    expect(getSongLines('Verse 2:', 'song.txt')[1]).toEqual({ type: 'header', text: 'Verse 2' });
+  });
+});
@@ -1,9 +1,11 @@
-import type { Parser, ParsedItemData } from './types';
+import type { Parser, ParsedItemData, ParseOptions } from './types';
+import { transposeChord, isChord, NON_CHORD_TOKEN_PATTERN } from './chords';
 
 // Define interfaces based on usage in the provided snippet
 interface SongPart {
     chords: string;
     lyrics: string;
+    header?: string; // Set for section headers like "Chorus:" (chords and lyrics are empty then)
 }
 
 interface SongItem {
@@ -11,22 +13,86 @@ interface SongItem {
     parts: SongPart[];
 }
 
-// Basic text parsing function (replace with actual parsing logic if available)
+type LineType = 'chords' | 'lyrics' | 'header' | 'blank';
+
+const SECTION_NAMES = 'intro|verse|pre-?chorus|chorus|refrain|bridge|interlude|instrumental|solo|outro|coda|ending|strophe';
+// Section headers: a section name in brackets, e.g. "[Verse 2]" or "[Chorus, softly]",
+// or a bare section name (optionally numbered) with a colon, e.g. "Chorus:" or "Verse 2:".
+// Other lines ending with a colon are lyrics ("And then he said:").
+const BRACKETED_HEADER_PATTERN = new RegExp(`^\\[\\s*(${SECTION_NAMES})\\b[^\\]]*\\]\\s*:?$`, 'i');
+const BARE_HEADER_PATTERN = new RegExp(`^(${SECTION_NAMES})(\\s*\\d+[a-z]?)?\\s*:$`, 'i');
+
+/**
+ * Classifies a line of a chord sheet.
+ * A line counts as chord line if at least half of its tokens are chords (or chord line
+ * markers like `N.C.`, `|` or `(2x)`), so the occasional annotation doesn't break detection.
+ * @param line A single line of the song text.
+ */
+function classifyLine(line: string): LineType {
+    const trimmed = line.trim();
+    if (!trimmed) return 'blank';
+
+    const tokens = trimmed.split(/\s+/);
+    const chordCount = tokens.filter(token => isChord(token)).length;
+    const markerCount = tokens.filter(token => NON_CHORD_TOKEN_PATTERN.test(token)).length;
+    if (chordCount > 0 && (chordCount + markerCount) * 2 >= tokens.length) return 'chords';
+    if (chordCount === 0 && markerCount === tokens.length) return 'chords'; // e.g. a lone "N.C."
+
+    if (BRACKETED_HEADER_PATTERN.test(trimmed) || BARE_HEADER_PATTERN.test(trimmed)) return 'header';
+
+    return 'lyrics';
+}
+
+/**
+ * Splits the song text into parts by classifying each line.
+ * Chords are paired with the following line: a line directly below chords is always lyrics
+ * (e.g. "Bridge over troubled water", "A day" or "Chorus:"), unless it is blank. A blank line
+ * followed by lyrics is kept as an empty chord line, so files in the strict
+ * "chord line / lyrics line" format render exactly as before.
+ */
 function parseSongText(content: string, filename: string): SongItem {
     const lines = content.split('\n');
+    const types = lines.map(classifyLine);
+    types.forEach((type, index) => {
+        if (type !== 'blank' && types[index - 1] === 'chords') types[index] = 'lyrics';
+    });
     const parts: SongPart[] = [];
-    for (let i = 0; i < lines.length; i += 2) {
-        const chordLine = lines[i] ?? ''; // Default to empty string if undefined
-        const lyricLine = lines[i + 1] ?? ''; // Default to empty string if undefined
-
-        if (i + 1 < lines.length) {
-            parts.push({
-                chords: chordLine,
-                lyrics: lyricLine
-            });
-        } else if (chordLine.trim()) {
-            // Handle potential last line if it's just chords or lyrics without a pair
-            parts.push({ chords: chordLine, lyrics: '' });
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i] ?? '';
+        const nextLine = lines[i + 1] ?? '';
+        const type = types[i];
+        const nextType = types[i + 1]; // undefined after the last line
+
+        if (type === 'header') {
+            parts.push({ chords: '', lyrics: '', header: line.trim().replace(/^\[|\]?\s*:?$/g, '').trim() });
+            i += 1;
+        } else if (type === 'chords') {
+            if (nextType === 'lyrics' || nextType === 'blank') {
+                // A blank line below chords is their (empty) lyrics line
+                parts.push({ chords: line, lyrics: nextType === 'lyrics' ? nextLine : '' });
+                i += 2;
+            } else {
+                // Chords on the last line
+                parts.push({ chords: line, lyrics: '' });
+                i += 1;
+            }
+        } else if (type === 'blank') {
+            if (nextType === 'lyrics' || nextType === 'blank') {
+                // Empty chord line above lyrics, or an empty line pair (spacing between verses)
+                parts.push({ chords: '', lyrics: nextType === 'lyrics' ? nextLine : '' });
+                i += 2;
+            } else {
+                if (nextType !== undefined) {
+                    parts.push({ chords: '', lyrics: '' });
+                }
+                i += 1; // Trailing blank lines are dropped
+            }
+        } else {
+            // Lyrics without chords
+            parts.push({ chords: '', lyrics: line });
+            i += 1;
         }
     }
     return {
@@ -36,76 +102,171 @@ function parseSongText(content: string, filename: string): SongItem {
 }
 
 
-export const chordParser: Parser = {
-    name: 'chord',
-    async parse(content: string, filename: string = 'song.txt'): Promise<ParsedItemData> {
-        const item = parseSongText(content, filename); // Parse the text content into SongItem
-
-        let contentHtml = ''; // Initialize contentHtml
-
-
-        // Generate song HTML (existing logic)
-        contentHtml = `<h2>${item.filename.replace('.txt', '')}</h2>\n`; // Add song title first
-        for (const part of item.parts) {
-            let lineHtml = '';
-            // Pre-process chord line to find chord start indices and text
-            const chordMap = new Map<number, string>();
-            let chordText = '';
-            for (let i = 0; i < part.chords.length; i++) {
-                const char = part.chords[i];
-                if (char !== ' ') {
-                    chordText += char;
-                } else {
-                    if (chordText) {
-                        // Store chord at the starting index
-                        chordMap.set(i - chordText.length, chordText);
-                        chordText = '';
-                    }
-                }
-            }
-            // Add any trailing chord
+/**
+ * Maps each chord in a chord line to the column it starts at.
+ * @param chordLine The line of chords written above the lyrics.
+ * @returns A map of column index to chord text.
+ */
+function mapChordLine(chordLine: string): Map<number, string> {
+    const chordMap = new Map<number, string>();
+    let chordText = '';
+    for (let i = 0; i < chordLine.length; i++) {
+        const char = chordLine[i];
+        if (char !== ' ') {
+            chordText += char;
+        } else {
             if (chordText) {
-                chordMap.set(part.chords.length - chordText.length, chordText);
+                // Store chord at the starting index
+                chordMap.set(i - chordText.length, chordText);
+                chordText = '';
             }
+        }
+    }
+    // Add any trailing chord
+    if (chordText) {
+        chordMap.set(chordLine.length - chordText.length, chordText);
+    }
+    return chordMap;
+}
 
-            // Iterate through lyrics line
-            for (let i = 0; i < part.lyrics.length; i++) {
-                const lyricChar = part.lyrics[i];
-                let chordSpan = '';
-
-                // Check if a chord starts at this character index
-                if (chordMap.has(i)) {
-                    // Ensure chordMap.get(i) is not undefined before using it
-                    const chordValue = chordMap.get(i);
-                    if (chordValue !== undefined) {
-                        chordSpan = `<span class="chord">${chordValue}</span>`;
-                    }
-                }
+/**
+ * A line of a rendered song sheet. The chord sheet parsers produce these lines and
+ * render them to HTML, the PDF export lays them out itself. Chords are already transposed.
+ */
+export type SongLine =
+    | { type: 'title' | 'subtitle' | 'artist' | 'capo' | 'header' | 'comment' | 'section-label'; text: string }
+    | { type: 'lyrics'; lyrics: string; chordMap: Map<number, string> }
+    | { type: 'section-start'; section: string }
+    | { type: 'section-end' }
+    | { type: 'break' };
 
-                // Check if the lyric character is a space
-                const charToAdd = lyricChar === ' ' ? '&nbsp;' : lyricChar;
+/**
+ * Returns the capo hint shown below the song title.
+ * @param options The item's parse options.
+ * @returns The capo line, or an empty list without capo.
+ */
+export function getCapoLines(options?: ParseOptions): SongLine[] {
+    return options?.capo ? [{ type: 'capo', text: `Capo ${options.capo}` }] : [];
+}
 
-                if (chordSpan) {
-                    // Wrap the lyric character and add the absolutely positioned chord
-                    lineHtml += `<span class="char-container">${chordSpan}${charToAdd}</span>`;
-                } else {
-                    // Just add the lyric character
-                    lineHtml += charToAdd;
-                }
+/**
+ * Transposes all chords of a line (chords are shown as shapes relative to the capo).
+ * @param chordMap A map of lyric column index to chord text.
+ * @param options The item's parse options.
+ * @returns A new map with the transposed chords.
+ */
+export function transposeChordMap(chordMap: Map<number, string>, options?: ParseOptions): Map<number, string> {
+    const semitones = (options?.transpose ?? 0) - (options?.capo ?? 0);
+    const transposed = new Map<number, string>();
+    chordMap.forEach((chord, index) => transposed.set(index, transposeChord(chord, semitones, options?.accidentals)));
+    return transposed;
+}
+
+/**
+ * Renders one lyrics line with its chords anchored above the matching characters.
+ * @param chordMap A map of lyric column index to chord text.
+ * @param lyrics The lyrics text.
+ * @returns The `.lyrics-line` HTML.
+ */
+function renderLyricsLine(chordMap: Map<number, string>, lyrics: string): string {
+    let lineHtml = '';
+
+    // Iterate through lyrics line
+    for (let i = 0; i < lyrics.length; i++) {
+        const lyricChar = lyrics[i];
+        let chordSpan = '';
+
+        // Check if a chord starts at this character index
+        if (chordMap.has(i)) {
+            // Ensure chordMap.get(i) is not undefined before using it
+            const chordValue = chordMap.get(i);
+            if (chordValue !== undefined) {
+                chordSpan = `<span class="chord">${chordValue}</span>`;
             }
-            // Add any remaining chords that might be positioned after the lyrics end
-            chordMap.forEach((chord, index) => {
-                if (index >= part.lyrics.length) {
-                    // Add a non-breaking space as an anchor with the chord
-                    lineHtml += `<span class="char-container"><span class="chord">${chord}</span>&nbsp;</span>`;
-                }
-            });
+        }
+
+        // Check if the lyric character is a space
+        const charToAdd = lyricChar === ' ' ? '&nbsp;' : lyricChar;
+
+        if (chordSpan) {
+            // Wrap the lyric character and add the absolutely positioned chord
+            lineHtml += `<span class="char-container">${chordSpan}${charToAdd}</span>`;
+        } else {
+            // Just add the lyric character
+            lineHtml += charToAdd;
+        }
+    }
+    // Add any remaining chords that might be positioned after the lyrics end
+    chordMap.forEach((chord, index) => {
+        if (index >= lyrics.length) {
+            // Add a non-breaking space as an anchor with the chord
+            lineHtml += `<span class="char-container"><span class="chord">${chord}</span>&nbsp;</span>`;
+        }
+    });
 
-            // Wrap "(2x)" specifically in a repetition span
-            lineHtml = lineHtml.replace(/\(2x\)/g, '<span class="repetition">(2x)</span>'); // Use regex global flag
+    // Wrap "(2x)" specifically in a repetition span
+    lineHtml = lineHtml.replace(/\(2x\)/g, '<span class="repetition">(2x)</span>'); // Use regex global flag
 
-            contentHtml += `<div class="lyrics-line">${lineHtml}</div>\n`;
+    return `<div class="lyrics-line">${lineHtml}</div>\n`;
+}
+
+/**
+ * Renders song lines to HTML. Shared with other chord sheet parsers so they produce the same markup.
+ * @param lines The song lines.
+ * @returns The HTML for the song container.
+ */
+export function renderSongHtml(lines: SongLine[]): string {
+    let html = '';
+    for (const line of lines) {
+        switch (line.type) {
+            case 'title':
+                html += `<h2>${line.text}</h2>\n`;
+                break;
+            case 'header':
+                html += `<h3 class="section-header">${line.text}</h3>\n`;
+                break;
+            case 'lyrics':
+                html += renderLyricsLine(line.chordMap, line.lyrics);
+                break;
+            case 'section-start':
+                html += `<div class="section ${line.section}">\n`;
+                break;
+            case 'section-end':
+                html += '</div>\n';
+                break;
+            case 'break':
+                html += '<div class="paragraph-break"></div>\n';
+                break;
+            default:
+                html += `<div class="${line.type}">${line.text}</div>\n`;
+        }
+    }
+    return html;
+}
+
+/**
+ * Converts a plain text chord sheet into song lines.
+ * @param content The song text.
+ * @param filename The filename, used as title.
+ * @param options Transposition and capo.
+ */
+export function getSongLines(content: string, filename: string, options?: ParseOptions): SongLine[] {
+    const item = parseSongText(content, filename); // Parse the text content into SongItem
+    const lines: SongLine[] = [{ type: 'title', text: item.filename.replace('.txt', '') }, ...getCapoLines(options)];
+    for (const part of item.parts) {
+        if (part.header !== undefined) {
+            lines.push({ type: 'header', text: part.header });
+        } else {
+            lines.push({ type: 'lyrics', lyrics: part.lyrics, chordMap: transposeChordMap(mapChordLine(part.chords), options) });
         }
+    }
+    return lines;
+}
+
+export const chordParser: Parser = {
+    name: 'chord',
+    async parse(content: string, filename: string = 'song.txt', options?: ParseOptions): Promise<ParsedItemData> {
+        const contentHtml = renderSongHtml(getSongLines(content, filename, options));
 
         const container = document.createElement('div');
         container.innerHTML = contentHtml;
@@ -0,0 +1,137 @@
+import type { Parser, ParsedItemData, ParseOptions } from './types';
+import { renderSongHtml, getCapoLines, transposeChordMap, type SongLine } from './chordParser';
+
+// Directive aliases as defined by the ChordPro format (long and short form)
+const TITLE_DIRECTIVES = ['title', 't'];
+const SUBTITLE_DIRECTIVES = ['subtitle', 'st'];
+const ARTIST_DIRECTIVES = ['artist'];
+const COMMENT_DIRECTIVES = ['comment', 'c', 'comment_italic', 'ci', 'comment_box', 'cb'];
+const SECTION_START_DIRECTIVES: Record<string, string> = {
+    start_of_chorus: 'chorus', soc: 'chorus',
+    start_of_verse: 'verse', sov: 'verse',
+    start_of_bridge: 'bridge', sob: 'bridge',
+};
+const SECTION_END_DIRECTIVES = ['end_of_chorus', 'eoc', 'end_of_verse', 'eov', 'end_of_bridge', 'eob'];
+
+/**
+ * Splits a ChordPro line with inline chords (e.g. `[G]Amazing [C]grace`)
+ * into the plain lyrics and a map of lyric column index to chord.
+ * @param line A single ChordPro lyrics line.
+ * @returns The lyrics text and the chords keyed by their column.
+ */
+function splitInlineChords(line: string): { lyrics: string; chordMap: Map<number, string> } {
+    const chordMap = new Map<number, string>();
+    let lyrics = '';
+    let i = 0;
+    while (i < line.length) {
+        const char = line[i];
+        if (char === '[') {
+            const closingIndex = line.indexOf(']', i);
+            if (closingIndex !== -1) {
+                // Two chords on the same column would overlap, so push the second one right
+                if (chordMap.has(lyrics.length)) {
+                    lyrics += ' ';
+                }
+                chordMap.set(lyrics.length, line.slice(i + 1, closingIndex).trim());
+                i = closingIndex + 1;
+                continue;
+            }
+        }
+        lyrics += char;
+        i++;
+    }
+    return { lyrics, chordMap };
+}
+
+/**
+ * Parses a `{name: value}` or `{name}` directive line.
+ * @param line The trimmed line.
+ * @returns The lowercased directive name and its value, or null if the line is no directive.
+ */
+function parseDirective(line: string): { name: string; value: string } | null {
+    const match = line.match(/^\{\s*([a-zA-Z_]+)\s*(?::\s*(.*?))?\s*\}$/);
+    if (!match) return null;
+    return { name: (match[1] ?? '').toLowerCase(), value: match[2] ?? '' };
+}
+
+/**
+ * Converts a ChordPro song into song lines.
+ * @param content The ChordPro text.
+ * @param filename The filename, used as title if the song has no {title:} directive.
+ * @param options Transposition and capo.
+ */
+export function getChordProLines(content: string, filename: string, options?: ParseOptions): SongLine[] {
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+    let title = '';
+    const headerLines: SongLine[] = [];
+    const bodyLines: SongLine[] = [];
+    let openSection: string | null = null; // Section (chorus/verse/bridge) currently being written
+
+    for (const rawLine of lines) {
+        const line = rawLine.trimEnd();
+
+        // Lines starting with '#' are comments for the author, not for print
+        if (line.trim().startsWith('#')) continue;
+
+        const directive = parseDirective(line.trim());
+        if (directive) {
+            if (TITLE_DIRECTIVES.includes(directive.name)) {
+                title = directive.value;
+            } else if (SUBTITLE_DIRECTIVES.includes(directive.name)) {
+                headerLines.push({ type: 'subtitle', text: directive.value });
+            } else if (ARTIST_DIRECTIVES.includes(directive.name)) {
+                headerLines.push({ type: 'artist', text: directive.value });
+            } else if (COMMENT_DIRECTIVES.includes(directive.name)) {
+                bodyLines.push({ type: 'comment', text: directive.value });
+            } else if (SECTION_START_DIRECTIVES[directive.name]) {
+                // Sections can't be nested, close a forgotten one first
+                if (openSection) bodyLines.push({ type: 'section-end' });
+                openSection = SECTION_START_DIRECTIVES[directive.name]!;
+                bodyLines.push({ type: 'section-start', section: openSection });
+                if (directive.value) {
+                    bodyLines.push({ type: 'section-label', text: directive.value });
+                }
+            } else if (SECTION_END_DIRECTIVES.includes(directive.name)) {
+                if (openSection) {
+                    bodyLines.push({ type: 'section-end' });
+                    openSection = null;
+                }
+            } else {
+                console.log(`ChordPro directive "${directive.name}" is not supported. Skipping.`);
+            }
+            continue;
+        }
+
+        if (!line.trim()) {
+            bodyLines.push({ type: 'break' });
+            continue;
+        }
+
+        const { lyrics, chordMap } = splitInlineChords(line);
+        bodyLines.push({ type: 'lyrics', lyrics, chordMap: transposeChordMap(chordMap, options) });
+    }
+
+    if (openSection) bodyLines.push({ type: 'section-end' });
+
+    // Fall back to the filename if the song has no {title:} directive
+    if (!title) {
+        title = filename.split('/').pop()?.replace(/\.[^/.]+$/, '') || filename;
+    }
+
+    return [{ type: 'title', text: title }, ...headerLines, ...getCapoLines(options), ...bodyLines];
+}
+
+export const chordProParser: Parser = {
+    name: 'chordpro',
+    async parse(content: string, filename: string = 'song.cho', options?: ParseOptions): Promise<ParsedItemData> {
+        const container = document.createElement('div');
+        container.innerHTML = renderSongHtml(getChordProLines(content, filename, options));
+        container.classList.add('song-container');
+
+        return {
+            element: container,
+            parserName: chordProParser.name
+        };
+    }
+};
@@ -0,0 +1,84 @@
+/**
+ * Chord helpers shared by the chord sheet parsers: the chord token grammar and transposition.
+ */
+
+const SHARP_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NOTES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+// Spelling most chord sheets use for notes transposed from a natural note
+const DEFAULT_NOTES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const NOTE_INDEX: Record<string, number> = {
+    'C': 0, 'B#': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'Fb': 4, 'E#': 5, 'F': 5,
+    'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11, 'Cb': 11,
+};
+
+/**
+ * Matches a single chord token like `Am7`, `Gsus4`, `Bbmaj7`, `C/E` or `(D7)`.
+ * Groups: 1 root, 2 quality/extensions, 3 bass note of a slash chord.
+ */
+export const CHORD_PATTERN = /^\(?([A-G][#b]?)((?:maj|min|dim|aug|sus|add|m|M|\+|-|°|ø|\d+|#|b|\(|\))*)(?:\/([A-G][#b]?))?\)?$/;
+
+/** Tokens that may appear in a chord line without being chords ("no chord", bar lines, repeats). */
+export const NON_CHORD_TOKEN_PATTERN = /^(N\.?C\.?|\||\|\||\/|%|x\d+|\(?\d+x\)?)$/i;
+
+/** Preferred spelling of accidentals when transposing. */
+export type Accidentals = 'sharp' | 'flat';
+
+/**
+ * Checks whether a token is a chord.
+ * @param token A whitespace separated token.
+ */
+export function isChord(token: string): boolean {
+    return CHORD_PATTERN.test(token);
+}
+
+/**
+ * Shifts a single note name by a number of semitones.
+ * @param note A note name like `F#` or `Bb`.
+ * @param semitones The number of semitones to shift (may be negative).
+ * @param accidentals Optional spelling preference for the result.
+ * @returns The shifted note, or the input if it is no note.
+ */
+export function transposeNote(note: string, semitones: number, accidentals?: Accidentals): string {
+    const index = NOTE_INDEX[note];
+    if (index === undefined) return note;
+    // Without a preference keep the spelling style of the original note
+    const preferred = accidentals ?? (note.endsWith('#') ? 'sharp' : note.endsWith('b') ? 'flat' : undefined);
+    const notes = preferred === 'sharp' ? SHARP_NOTES : preferred === 'flat' ? FLAT_NOTES : DEFAULT_NOTES;
+    const shifted = ((index + semitones) % 12 + 12) % 12;
+    return notes[shifted] ?? note;
+}
+
+/**
+ * Transposes a chord token, including the bass note of slash chords (e.g. `D/F#`).
+ * Tokens that are no chords (like `N.C.` or `(2x)`) are returned unchanged.
+ * @param chord The chord token.
+ * @param semitones The number of semitones to shift (may be negative).
+ * @param accidentals Optional spelling preference for the result.
+ */
+export function transposeChord(chord: string, semitones: number, accidentals?: Accidentals): string {
+    if (!semitones && !accidentals) return chord;
+    const match = chord.match(CHORD_PATTERN);
+    if (!match) return chord;
+
+    const [, root = '', quality = '', bass] = match;
+    const opening = chord.startsWith('(') ? '(' : '';
+    const closing = chord.endsWith(')') && opening ? ')' : '';
+    const transposedBass = bass ? `/${transposeNote(bass, semitones, accidentals)}` : '';
+    // The closing bracket of a parenthesised chord was captured as part of the quality
+    const cleanQuality = closing && !bass ? quality.slice(0, -1) : quality;
+    return `${opening}${transposeNote(root, semitones, accidentals)}${cleanQuality}${transposedBass}${closing}`;
+}
+
+/**
+ * Returns the key a chord implies (root plus `m` for minor chords), used to name a song's key.
+ * @param chord The chord token.
+ * @returns The key like `Am` or `G`, or null if the token is no chord.
+ */
+export function getChordKey(chord: string): string | null {
+    const match = chord.match(CHORD_PATTERN);
+    if (!match) return null;
+    const [, root = '', quality = ''] = match;
+    const isMinor = /^(m(?!aj)|min|-)/.test(quality);
+    return `${root}${isMinor ? 'm' : ''}`;
+}
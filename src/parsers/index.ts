@@ -1,8 +1,9 @@
-import type { Parser, ParsedItemData } from './types';
+import type { Parser, ParsedItemData, ParseOptions } from './types';
 import { htmlParser } from './htmlParser';
 import { svgParser } from './svgParser';
 import { imageParser } from './imageParser';
 import { chordParser } from './chordParser';
+import { chordProParser } from './chordProParser';
 
 // Collection of all available parsers
 export const parsers: Record<string, Parser> = {
@@ -10,8 +11,17 @@ export const parsers: Record<string, Parser> = {
   [svgParser.name]: svgParser,
   [imageParser.name]: imageParser,
   [chordParser.name]: chordParser,
+  [chordProParser.name]: chordProParser,
 };
 
+/**
+ * Checks whether text content looks like a ChordPro song (starts with a {title:} directive).
+ * @param content The file content as a string.
+ */
+function isChordPro(content: string): boolean {
+    return /^\s*(#.*\n\s*)*\{\s*(title|t)\s*:/i.test(content);
+}
+
 /**
  * Determines the appropriate parser based on file extension or content sniffing.
  * @param filename The name of the file (including extension).
@@ -34,6 +44,13 @@ export function findParser(filename: string, content: string): Parser | undefine
         // For images, the 'content' is expected to be a URL/path later
         return parsers.image;
     }
+    if (extension === 'cho' || extension === 'chordpro' || extension === 'crd') {
+        return parsers.chordpro;
+    }
+    if (isChordPro(content)) {
+        // ChordPro songs are often saved as .txt, recognise them by their directives
+        return parsers.chordpro;
+    }
     if (extension === 'txt') {
         // Assume .txt files are chord sheets for now
         // More robust checking could be added here if needed
@@ -62,13 +79,28 @@ export function findParser(filename: string, content: string): Parser | undefine
     return undefined; // Or potentially default to a text/chord parser?
 }
 
+/**
+ * Collects the render options stored for an item (e.g. chord transposition).
+ * Used by the browser and by the exports, so both render an item the same way.
+ * @param pos The item's position data (ItemPosition or its saved form).
+ * @returns The options to pass to the parser.
+ */
+export function getParseOptions(pos: ParseOptions): ParseOptions {
+    const options: ParseOptions = {};
+    if (pos.transpose) options.transpose = pos.transpose;
+    if (pos.capo) options.capo = pos.capo;
+    if (pos.accidentals) options.accidentals = pos.accidentals;
+    return options;
+}
+
 /**
  * Parses content using the appropriate parser based on filename.
  * @param filename The name of the file.
  * @param content The file content (string for text/svg/html, URL/path for images).
+ * @param options Optional per-item render options (e.g. chord transposition).
  * @returns A promise resolving to the parsed item data including the parser name.
  */
-export async function parseContent(filename: string, content: string): Promise<ParsedItemData> {
+export async function parseContent(filename: string, content: string, options?: ParseOptions): Promise<ParsedItemData> {
     const parser = findParser(filename, content);
 
     if (!parser) {
@@ -83,7 +115,7 @@ export async function parseContent(filename: string, content: string): Promise<P
     try {
         // imageParser.parse only expects one argument (the path).
         // Other parsers might use the filename as a second argument if their signature allows.
-        const { element, width, height } = await parser.parse(contentToParse, filename);
+        const { element, width, height } = await parser.parse(contentToParse, filename, options);
         return { element, width, height, parserName: parser.name };
     } catch (error) {
         console.error(`Error parsing ${filename} with ${parser.name} parser:`, error);
@@ -92,4 +124,4 @@ export async function parseContent(filename: string, content: string): Promise<P
 }
 
 // Re-export types for convenience
-export type { Parser, ParsedItemData };
+export type { Parser, ParsedItemData, ParseOptions };
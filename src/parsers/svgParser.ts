@@ -1,46 +1,59 @@
 import type { Parser } from './types';
 
+/**
+ * Prepares the SVG markup so it scales with its container: removes the width/height attributes
+ * of the root element (returned instead), sets preserveAspectRatio and adds a missing viewBox.
+ * Works on the string only, so the server can use it as well (HTML export).
+ * @param content The SVG source.
+ * @returns The modified markup and the original width/height (null if not given).
+ */
+export function prepareSvgMarkup(content: string): { svgContent: string; originalWidth: string | null; originalHeight: string | null } {
+  // --- Start: Replicate original SVG string manipulation ---
+  let svgContent = content;
+  let originalWidthStr: string | null = null;
+  let originalHeightStr: string | null = null;
+  let hasViewBox = /<svg[^>]*?viewBox\s*=/i.test(svgContent);
+
+  // Capture and remove width attribute
+  svgContent = svgContent.replace(/<svg([^>]*?)\s+width\s*=\s*"([^"]+)"/i, (match, g1, g2) => {
+      originalWidthStr = g2.replace(/px$/i, ''); // Remove 'px' if present
+      return `<svg${g1}`; // Remove the width attribute
+  });
+
+  // Capture and remove height attribute
+  svgContent = svgContent.replace(/<svg([^>]*?)\s+height\s*=\s*"([^"]+)"/i, (match, g1, g2) => {
+      originalHeightStr = g2.replace(/px$/i, ''); // Remove 'px' if present
+      return `<svg${g1}`; // Remove the height attribute
+  });
+
+  // Ensure preserveAspectRatio="xMidYMid meet" is set
+  if (/preserveAspectRatio\s*=/.test(svgContent)) {
+      // Replace existing preserveAspectRatio
+      svgContent = svgContent.replace(/<svg([^>]*?)\s+preserveAspectRatio\s*=\s*"[^"]*"/i, '<svg$1 preserveAspectRatio="xMidYMid meet"');
+  } else {
+      // Add preserveAspectRatio if missing
+      svgContent = svgContent.replace(/<svg/i, '<svg preserveAspectRatio="xMidYMid meet"');
+  }
+
+  // Add viewBox if missing and we captured width/height
+  if (!hasViewBox && originalWidthStr && originalHeightStr) {
+      const viewBoxValue = `0 0 ${originalWidthStr} ${originalHeightStr}`;
+      svgContent = svgContent.replace(/<svg/i, `<svg viewBox="${viewBoxValue}"`);
+      console.log(`Added viewBox="${viewBoxValue}" based on original width/height.`);
+  }
+
+  // Clean up potential double spaces added during replacements
+  svgContent = svgContent.replace(/<svg\s+>/i, '<svg>');
+  svgContent = svgContent.replace(/\s\s+/g, ' ');
+  // --- End: SVG string manipulation ---
+
+  return { svgContent, originalWidth: originalWidthStr, originalHeight: originalHeightStr };
+}
+
 export const svgParser: Parser = {
   name: 'svg',
   async parse(content: string): Promise<{ element: SVGElement; width: number; height: number }> {
-    // --- Start: Replicate original SVG string manipulation ---
-    let svgContent = content;
-    let originalWidthStr: string | null = null;
-    let originalHeightStr: string | null = null;
-    let hasViewBox = /<svg[^>]*?viewBox\s*=/i.test(svgContent);
-
-    // Capture and remove width attribute
-    svgContent = svgContent.replace(/<svg([^>]*?)\s+width\s*=\s*"([^"]+)"/i, (match, g1, g2) => {
-        originalWidthStr = g2.replace(/px$/i, ''); // Remove 'px' if present
-        return `<svg${g1}`; // Remove the width attribute
-    });
-
-    // Capture and remove height attribute
-    svgContent = svgContent.replace(/<svg([^>]*?)\s+height\s*=\s*"([^"]+)"/i, (match, g1, g2) => {
-        originalHeightStr = g2.replace(/px$/i, ''); // Remove 'px' if present
-        return `<svg${g1}`; // Remove the height attribute
-    });
-
-    // Ensure preserveAspectRatio="xMidYMid meet" is set
-    if (/preserveAspectRatio\s*=/.test(svgContent)) {
-        // Replace existing preserveAspectRatio
-        svgContent = svgContent.replace(/<svg([^>]*?)\s+preserveAspectRatio\s*=\s*"[^"]*"/i, '<svg$1 preserveAspectRatio="xMidYMid meet"');
-    } else {
-        // Add preserveAspectRatio if missing
-        svgContent = svgContent.replace(/<svg/i, '<svg preserveAspectRatio="xMidYMid meet"');
-    }
-
-    // Add viewBox if missing and we captured width/height
-    if (!hasViewBox && originalWidthStr && originalHeightStr) {
-        const viewBoxValue = `0 0 ${originalWidthStr} ${originalHeightStr}`;
-        svgContent = svgContent.replace(/<svg/i, `<svg viewBox="${viewBoxValue}"`);
-        console.log(`Added viewBox="${viewBoxValue}" based on original width/height.`);
-    }
-
-    // Clean up potential double spaces added during replacements
-    svgContent = svgContent.replace(/<svg\s+>/i, '<svg>');
-    svgContent = svgContent.replace(/\s\s+/g, ' ');
-    // --- End: SVG string manipulation ---
+    const { svgContent, originalWidth: originalWidthStr, originalHeight: originalHeightStr } = prepareSvgMarkup(content);
 
     // Now parse the potentially modified SVG string
     const parser = new DOMParser();
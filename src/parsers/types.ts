@@ -1,7 +1,18 @@
+import type { Accidentals } from './chords';
+
+/**
+ * Per-item options that change how content is rendered (currently only used by chord parsers).
+ */
+export interface ParseOptions {
+  transpose?: number; // Semitones to shift all chords by
+  capo?: number; // Capo fret, chords are shown as shapes relative to it
+  accidentals?: Accidentals; // Preferred spelling of transposed chords
+}
+
 export interface Parser {
   name: string;
   // Make width and height optional in the return type
-  parse(content: string, filename?: string): Promise<{ element: HTMLElement | SVGElement; width?: number; height?: number }>;
+  parse(content: string, filename?: string, options?: ParseOptions): Promise<{ element: HTMLElement | SVGElement; width?: number; height?: number }>;
 }
 
 export interface ParsedItemData {
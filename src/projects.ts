@@ -0,0 +1,211 @@
+import { readdir, readFile, writeFile, mkdir, rename, cp, rm, stat } from 'fs/promises';
+import path from 'path';
+import type { LayoutSettings } from './export/types';
+import { takeSnapshotIfDue, updateSnapshots } from './snapshots';
+
+/**
+ * Projects on the server: every project is a directory `user/<project>/`
+ * with its own settings.json and uploaded files. The directory name is the project ID.
+ */
+
+export const USER_DIR = 'user';
+export const DEFAULT_PROJECT = 'default';
+export const SETTINGS_FILENAME = 'settings.json';
+export const SETTINGS_TEMP_FILENAME = 'settings.json.tmp';
+
+// Letters, digits, spaces, '-' and '_', so IDs are safe as directory names and in URLs
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,63}$/;
+
+export function isValidProjectId(id: string): boolean {
+  return PROJECT_ID_PATTERN.test(id) && id.trim() === id;
+}
+
+export function getProjectDir(project: string): string {
+  return path.join(USER_DIR, project);
+}
+
+export function getSettingsFile(project: string): string {
+  return path.join(USER_DIR, project, SETTINGS_FILENAME);
+}
+
+/**
+ * Returns the URL path prefix of the files of a project (as stored in the items' filepath).
+ */
+export function getProjectUrlPrefix(project: string): string {
+  return `/${USER_DIR}/${project}/`;
+}
+
+export async function projectExists(project: string): Promise<boolean> {
+  try {
+    return (await stat(getProjectDir(project))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists the IDs of all projects, sorted by name.
+ */
+export async function listProjects(): Promise<string[]> {
+  const entries = await readdir(USER_DIR, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory() && isValidProjectId(entry.name))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export async function createProject(project: string): Promise<void> {
+  await mkdir(getProjectDir(project), { recursive: true });
+}
+
+/**
+ * Writes the settings of a project atomically: to a temporary file that replaces the settings file,
+ * so a crash while writing can't leave a half-written settings.json.
+ */
+async function writeSettingsFile(project: string, settings: LayoutSettings): Promise<void> {
+  const tempFile = path.join(getProjectDir(project), SETTINGS_TEMP_FILENAME);
+  await writeFile(tempFile, JSON.stringify(settings, null, 2));
+  await rename(tempFile, getSettingsFile(project));
+}
+
+/**
+ * Reads the settings of a project, an empty object if nothing was saved yet.
+ */
+export async function readSettings(project: string): Promise<LayoutSettings> {
+  try {
+    return JSON.parse(await readFile(getSettingsFile(project), 'utf-8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+const settingsUpdates = new Map<string, Promise<unknown>>(); // Last pending update per project
+
+/**
+ * Runs a task that reads or writes the files of a project after all pending updates of the project,
+ * and lets later updates wait for it.
+ */
+function queueProjectTask<T>(project: string, task: () => Promise<T>): Promise<T> {
+  const previous = settingsUpdates.get(project) ?? Promise.resolve();
+  const result = previous.catch(() => {}).then(task);
+  settingsUpdates.set(project, result);
+  return result;
+}
+
+/**
+ * Reads, changes and writes the settings of a project (creating the project if needed) and increments the revision.
+ * The previous settings are kept as a snapshot from time to time.
+ * Updates of a project run one after another, so concurrent requests don't overwrite each other.
+ * @param project The project ID.
+ * @param update Returns the new settings for the current ones, or null to keep them (nothing is written).
+ * It may be async, e.g. to take a snapshot of the current settings before they are replaced.
+ * @returns The settings as they are now.
+ */
+export function updateSettings(project: string, update: (settings: LayoutSettings) => LayoutSettings | null | Promise<LayoutSettings | null>): Promise<LayoutSettings> {
+  return queueProjectTask(project, async () => {
+    const current = await readSettings(project);
+    const updated = await update(current);
+    if (!updated) return current;
+    const settings = { ...updated, revision: (current.revision ?? 0) + 1 };
+    await createProject(project);
+    await takeSnapshotIfDue(getProjectDir(project), current);
+    await writeSettingsFile(project, settings);
+    return settings;
+  });
+}
+
+function rebaseFilepaths(settings: LayoutSettings, fromPrefix: string, toPrefix: string): void {
+  for (const item of settings.objects ?? []) {
+    if (item.filepath?.startsWith(fromPrefix)) {
+      item.filepath = toPrefix + item.filepath.slice(fromPrefix.length);
+    }
+  }
+}
+
+/**
+ * Rewrites the filepath of all items of a project, e.g. after the project directory was renamed.
+ * The settings are changed with updateSettings(), so the change gets a new revision and
+ * saves based on the old paths are rejected.
+ * The snapshots are rewritten too, so restoring one brings back items of this project.
+ * (Trashed files are restored by their name, they don't need to be changed.)
+ * @param project The project whose settings are updated.
+ * @param fromPrefix The old path prefix (e.g. `/user/old/`).
+ * @param toPrefix The new path prefix (e.g. `/user/new/`).
+ */
+async function rewriteFilepaths(project: string, fromPrefix: string, toPrefix: string): Promise<void> {
+  await updateSettings(project, settings => {
+    if (!settings.objects) return null; // Nothing saved yet
+    rebaseFilepaths(settings, fromPrefix, toPrefix);
+    return settings;
+  });
+  await queueProjectTask(project, () => updateSnapshots(getProjectDir(project), settings => rebaseFilepaths(settings, fromPrefix, toPrefix)));
+}
+
+// Pending updates of the project finish before its directory is moved or copied
+export function renameProject(project: string, newProject: string): Promise<void> {
+  return queueProjectTask(project, async () => {
+    await rename(getProjectDir(project), getProjectDir(newProject));
+    await rewriteFilepaths(newProject, getProjectUrlPrefix(project), getProjectUrlPrefix(newProject));
+  });
+}
+
+export function duplicateProject(project: string, newProject: string): Promise<void> {
+  return queueProjectTask(project, async () => {
+    await cp(getProjectDir(project), getProjectDir(newProject), { recursive: true });
+    await rewriteFilepaths(newProject, getProjectUrlPrefix(project), getProjectUrlPrefix(newProject));
+  });
+}
+
+export async function deleteProject(project: string): Promise<void> {
+  await rm(getProjectDir(project), { recursive: true });
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Moves the files of the single-project layout (`user/settings.json` and uploads directly in `user/`)
+ * into the default project. Runs on startup, does nothing if there are no such files.
+ * Files of the default project are never replaced: a file with the same name stays in `user/`
+ * (and items keep referencing it there).
+ */
+export async function migrateLegacyUserDir(): Promise<void> {
+  const entries = await readdir(USER_DIR, { withFileTypes: true });
+  const files = entries.filter(entry => entry.isFile());
+  if (files.length === 0) return;
+
+  await createProject(DEFAULT_PROJECT);
+  const movedFiles: string[] = [];
+  for (const file of files) {
+    const target = path.join(getProjectDir(DEFAULT_PROJECT), file.name);
+    if (await fileExists(target)) {
+      console.warn(`Not moving ./${USER_DIR}/${file.name}: the project "${DEFAULT_PROJECT}" already has a file with this name.`);
+      continue;
+    }
+    await rename(path.join(USER_DIR, file.name), target);
+    movedFiles.push(file.name);
+  }
+  if (movedFiles.length === 0) return;
+
+  // Items referenced their files as /user/<file>
+  const legacyPrefix = `/${USER_DIR}/`;
+  if (movedFiles.includes(SETTINGS_FILENAME)) {
+    const settings = await readSettings(DEFAULT_PROJECT);
+    if (settings.objects) {
+      for (const item of settings.objects) {
+        if (item.filepath?.startsWith(legacyPrefix) && movedFiles.includes(item.filepath.slice(legacyPrefix.length))) {
+          item.filepath = getProjectUrlPrefix(DEFAULT_PROJECT) + item.filepath.slice(legacyPrefix.length);
+        }
+      }
+      await writeSettingsFile(DEFAULT_PROJECT, settings);
+    }
+  }
+  console.log(`Moved ${movedFiles.length} file(s) from ./${USER_DIR} into the project "${DEFAULT_PROJECT}".`);
+}
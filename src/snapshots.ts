@@ -0,0 +1,208 @@
+import { readdir, readFile, writeFile, mkdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import type { LayoutSettings } from './export/types';
+
+/**
+ * Versions of a project: timestamped snapshots of its settings in `<project>/.history/`
+ * and files deleted from the layout in `<project>/.trash/`. Both directories are hidden,
+ * so they are neither watched nor served as item files.
+ */
+
+export const HISTORY_DIRNAME = '.history';
+export const TRASH_DIRNAME = '.trash';
+
+// A snapshot is taken before a write if the newest one is older than this
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+// Retention: the newest snapshots are all kept, older ones one per day for some days
+const KEEP_ALL_SNAPSHOTS = 20;
+const KEEP_DAILY_SNAPSHOTS_DAYS = 30;
+const KEEP_TRASH_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshot IDs are ISO timestamps usable as filenames, e.g. 2026-10-19T12-30-00-000Z
+const SNAPSHOT_ID_PATTERN = /^(\d{4}-\d\d-\d\d)T(\d\d)-(\d\d)-(\d\d)-(\d{3})Z$/;
+
+export interface SnapshotInfo {
+  id: string;
+  date: string; // ISO date
+  revision?: number;
+  items: number;
+}
+
+let lastSnapshotTime = 0;
+
+function createTimestampId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function parseTimestampId(id: string): Date | null {
+  const match = id.match(SNAPSHOT_ID_PATTERN);
+  return match ? new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`) : null;
+}
+
+/**
+ * Lists the snapshot IDs of a project, newest first.
+ */
+async function listSnapshotIds(projectDir: string): Promise<string[]> {
+  try {
+    const files = await readdir(path.join(projectDir, HISTORY_DIRNAME));
+    return files
+      .filter(file => file.endsWith('.json') && parseTimestampId(file.slice(0, -5)))
+      .map(file => file.slice(0, -5))
+      .sort()
+      .reverse();
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Deletes snapshots according to the retention policy: the newest ones are kept,
+ * older ones only the last of each day, and none older than KEEP_DAILY_SNAPSHOTS_DAYS.
+ */
+async function pruneSnapshots(projectDir: string): Promise<void> {
+  const ids = await listSnapshotIds(projectDir);
+  const keptDays = new Set<string>();
+  const oldestKept = Date.now() - KEEP_DAILY_SNAPSHOTS_DAYS * DAY_MS;
+  for (const [index, id] of ids.entries()) {
+    const day = id.slice(0, 10);
+    const keep = index < KEEP_ALL_SNAPSHOTS || (!keptDays.has(day) && parseTimestampId(id)!.getTime() >= oldestKept);
+    keptDays.add(day);
+    if (!keep) {
+      await rm(path.join(projectDir, HISTORY_DIRNAME, `${id}.json`), { force: true });
+    }
+  }
+}
+
+/**
+ * Deletes files that are in the trash for longer than KEEP_TRASH_DAYS.
+ */
+async function pruneTrash(projectDir: string): Promise<void> {
+  let files: string[];
+  try {
+    files = await readdir(path.join(projectDir, TRASH_DIRNAME));
+  } catch {
+    return; // No trash yet
+  }
+  const oldestKept = Date.now() - KEEP_TRASH_DAYS * DAY_MS;
+  for (const file of files) {
+    const deletedAt = parseTimestampId(file.split('_')[0] ?? '');
+    if (deletedAt && deletedAt.getTime() < oldestKept) {
+      await rm(path.join(projectDir, TRASH_DIRNAME, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Stores a snapshot of the settings of a project and applies the retention policy.
+ * @param projectDir The project directory.
+ * @param settings The settings to store.
+ * @returns The new snapshot, or null if there is nothing to store (nothing saved yet).
+ */
+export async function takeSnapshot(projectDir: string, settings: LayoutSettings): Promise<SnapshotInfo | null> {
+  if (Object.keys(settings).length === 0) return null;
+  // IDs have millisecond resolution, a second snapshot in the same millisecond gets the next one
+  const date = new Date(Math.max(Date.now(), lastSnapshotTime + 1));
+  lastSnapshotTime = date.getTime();
+  const id = createTimestampId(date);
+  await mkdir(path.join(projectDir, HISTORY_DIRNAME), { recursive: true });
+  await writeFile(path.join(projectDir, HISTORY_DIRNAME, `${id}.json`), JSON.stringify(settings, null, 2));
+  await pruneSnapshots(projectDir);
+  await pruneTrash(projectDir);
+  console.log(`Snapshot ${id} of ${projectDir} taken.`);
+  return { id, date: date.toISOString(), revision: settings.revision, items: settings.objects?.length ?? 0 };
+}
+
+/**
+ * Takes a snapshot of the settings (before they are overwritten) if the last one is older than SNAPSHOT_INTERVAL_MS.
+ * @param projectDir The project directory.
+ * @param settings The current settings.
+ */
+export async function takeSnapshotIfDue(projectDir: string, settings: LayoutSettings): Promise<void> {
+  const [newestId] = await listSnapshotIds(projectDir);
+  const newestDate = newestId ? parseTimestampId(newestId) : null;
+  if (newestDate && Date.now() - newestDate.getTime() < SNAPSHOT_INTERVAL_MS) return;
+  await takeSnapshot(projectDir, settings);
+}
+
+/**
+ * Lists the snapshots of a project, newest first.
+ */
+export async function listSnapshots(projectDir: string): Promise<SnapshotInfo[]> {
+  const snapshots: SnapshotInfo[] = [];
+  for (const id of await listSnapshotIds(projectDir)) {
+    try {
+      const settings = await readSnapshot(projectDir, id);
+      snapshots.push({ id, date: parseTimestampId(id)!.toISOString(), revision: settings.revision, items: settings.objects?.length ?? 0 });
+    } catch (error) {
+      console.warn(`Skipping unreadable snapshot ${id} of ${projectDir}:`, error);
+    }
+  }
+  return snapshots;
+}
+
+export function isValidSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * Reads a snapshot (throws ENOENT if it doesn't exist).
+ */
+export async function readSnapshot(projectDir: string, id: string): Promise<LayoutSettings> {
+  return JSON.parse(await readFile(path.join(projectDir, HISTORY_DIRNAME, `${id}.json`), 'utf-8'));
+}
+
+/**
+ * Changes all snapshots of a project, e.g. the paths of the items after the project was renamed.
+ * @param projectDir The project directory.
+ * @param update Changes the settings of a snapshot in place.
+ */
+export async function updateSnapshots(projectDir: string, update: (settings: LayoutSettings) => void): Promise<void> {
+  for (const id of await listSnapshotIds(projectDir)) {
+    const settings = await readSnapshot(projectDir, id);
+    update(settings);
+    await writeFile(path.join(projectDir, HISTORY_DIRNAME, `${id}.json`), JSON.stringify(settings, null, 2));
+  }
+}
+
+/**
+ * Moves a file of a project into its trash (instead of deleting it), so restoring a snapshot can bring it back.
+ * @param projectDir The project directory.
+ * @param filePath The absolute path of the file.
+ */
+export async function moveToTrash(projectDir: string, filePath: string): Promise<void> {
+  await mkdir(path.join(projectDir, TRASH_DIRNAME), { recursive: true });
+  await rename(filePath, path.join(projectDir, TRASH_DIRNAME, `${createTimestampId(new Date())}_${path.basename(filePath)}`));
+}
+
+/**
+ * Moves the files of restored items back from the trash (the most recently deleted version of each file).
+ * @param projectDir The project directory.
+ * @param settings The restored settings.
+ * @returns The names of the restored files.
+ */
+export async function restoreTrashedFiles(projectDir: string, settings: LayoutSettings): Promise<string[]> {
+  let trashedFiles: string[];
+  try {
+    trashedFiles = (await readdir(path.join(projectDir, TRASH_DIRNAME))).sort().reverse();
+  } catch {
+    return []; // No trash
+  }
+
+  const restored: string[] = [];
+  for (const object of settings.objects ?? []) {
+    if (!object.filepath) continue;
+    const filename = path.basename(object.filepath);
+    const filePath = path.join(projectDir, filename);
+    const exists = await stat(filePath).then(() => true, () => false);
+    const trashedFile = trashedFiles.find(file => file.slice(file.indexOf('_') + 1) === filename);
+    if (exists || !trashedFile) continue;
+    await rename(path.join(projectDir, TRASH_DIRNAME, trashedFile), filePath);
+    trashedFiles = trashedFiles.filter(file => file !== trashedFile);
+    restored.push(filename);
+  }
+  return restored;
+}